@@ -14,6 +14,7 @@ dotenv.config({ path: path.resolve(__dirname, '../.env') });
 
 // Import models
 import { User, Post, Comment } from '../src/models';
+import { renderMarkdown } from '../src/utils/markdown';
 
 const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/blogapp?directConnection=true';
 
@@ -283,6 +284,7 @@ async function seed(): Promise<void> {
     console.log('📝 Creating posts...');
     const postsWithAuthors = samplePosts.map((post, index) => ({
       ...post,
+      contentHtml: renderMarkdown(post.content),
       author: users[index % users.length]!._id,
       publishedAt: post.status === 'published' ? new Date(Date.now() - index * 86400000) : undefined,
     }));
@@ -13,6 +13,13 @@ import { config, isProduction } from './config/environment';
 import { connectDatabase } from './config/database';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
 import routes from './routes';
+import { startEmailWorker, stopEmailWorker } from './services/emailWorker.service';
+import { registerEventHandlers } from './services/eventHandlers.service';
+import { startEventRelay, stopEventRelay } from './services/events.service';
+import { startWebhookWorker, stopWebhookWorker } from './services/webhookWorker.service';
+import { startRealtime, stopRealtime } from './services/realtime.service';
+import { startPublishScheduler, stopPublishScheduler } from './services/scheduler.service';
+import { LOCAL_MEDIA_ROUTE } from './services/storage';
 import { logger } from './utils/logger';
 
 /**
@@ -21,6 +28,9 @@ import { logger } from './utils/logger';
 export function createApp(): Application {
   const app = express();
 
+  // Notifications, emails and webhooks react to events published by the routes
+  registerEventHandlers();
+
   // Trust proxy (for load balancer)
   app.set('trust proxy', 1);
 
@@ -34,7 +44,7 @@ export function createApp(): Application {
     origin: config.corsOrigins,
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Last-Event-ID'],
   }));
 
   // Request logging
@@ -48,6 +58,15 @@ export function createApp(): Application {
   app.use(express.json({ limit: '10mb' }));
   app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+  // Uploaded images (local storage driver only; blob storage serves its own URLs)
+  // Mounted before the rate limiter so image requests don't consume the API quota
+  if (config.media.storageDriver === 'local') {
+    app.use(
+      LOCAL_MEDIA_ROUTE,
+      express.static(config.media.localDir, { maxAge: '1y', immutable: true, index: false })
+    );
+  }
+
   // Rate limiting
   const limiter = rateLimit({
     windowMs: config.rateLimitWindowMs,
@@ -86,10 +105,29 @@ async function startServer(): Promise<void> {
       logger.info(`🏥 Health check: http://localhost:${config.port}/health`);
     });
 
+    // Background jobs
+    startPublishScheduler();
+    startEmailWorker();
+    startWebhookWorker();
+    startEventRelay();
+
+    // Change streams feeding the Server-Sent Event endpoints
+    startRealtime();
+
     // Graceful shutdown
     const shutdown = async (signal: string): Promise<void> => {
       logger.info(`${signal} received. Starting graceful shutdown...`);
 
+      stopPublishScheduler();
+      stopEmailWorker();
+      stopWebhookWorker();
+      stopEventRelay();
+
+      // Open event streams would otherwise keep server.close() waiting
+      await stopRealtime().catch((error) => {
+        logger.error('Error stopping realtime updates:', error);
+      });
+
       server.close(async () => {
         logger.info('HTTP server closed');
 
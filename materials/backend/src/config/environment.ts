@@ -21,6 +21,39 @@ interface EnvironmentConfig {
   corsOrigins: string[];
   rateLimitWindowMs: number;
   rateLimitMaxRequests: number;
+  schedulerIntervalMs: number;
+  viewDedupeWindowMinutes: number;
+  siteUrl?: string;
+  media: {
+    storageDriver: 'local' | 'azure-blob';
+    localDir: string;
+    maxFileSizeBytes: number;
+    azureStorageAccount?: string;
+    azureStorageContainer: string;
+    azureStorageSasToken?: string;
+  };
+  email: {
+    enabled: boolean;
+    transport: 'smtp' | 'file' | 'console';
+    from: string;
+    smtpHost?: string;
+    smtpPort: number;
+    smtpSecure: boolean; // TLS from the start (port 465); otherwise STARTTLS when offered
+    smtpUser?: string;
+    smtpPassword?: string;
+    fileDir: string;
+    workerIntervalMs: number;
+    digestHourUtc: number;
+    unsubscribeSecret?: string;
+  };
+  webhooks: {
+    workerIntervalMs: number; // 0 disables delivery on this instance
+    timeoutMs: number;
+  };
+  events: {
+    outboxEnabled: boolean; // Persist domain events before their handlers run
+    relayIntervalMs: number;
+  };
 }
 
 function getEnvVar(key: string, defaultValue?: string): string {
@@ -35,6 +68,14 @@ function getEnvVarOptional(key: string): string | undefined {
   return process.env[key];
 }
 
+function getEnvVarAsBool(key: string, defaultValue: boolean): boolean {
+  const value = process.env[key];
+  if (value === undefined) {
+    return defaultValue;
+  }
+  return value === 'true' || value === '1';
+}
+
 function getEnvVarAsInt(key: string, defaultValue: number): number {
   const value = process.env[key];
   if (value === undefined) {
@@ -61,6 +102,39 @@ export const config: EnvironmentConfig = {
   corsOrigins: getEnvVar('CORS_ORIGINS', 'http://localhost:5173,http://localhost:3000').split(','),
   rateLimitWindowMs: getEnvVarAsInt('RATE_LIMIT_WINDOW_MS', 900000),
   rateLimitMaxRequests: getEnvVarAsInt('RATE_LIMIT_MAX_REQUESTS', 100),
+  schedulerIntervalMs: getEnvVarAsInt('SCHEDULER_INTERVAL_MS', 60000),
+  viewDedupeWindowMinutes: getEnvVarAsInt('VIEW_DEDUPE_WINDOW_MINUTES', 30),
+  siteUrl: getEnvVarOptional('SITE_URL')?.replace(/\/+$/, ''),
+  media: {
+    storageDriver: getEnvVar('MEDIA_STORAGE_DRIVER', 'local') as 'local' | 'azure-blob',
+    localDir: path.resolve(getEnvVar('MEDIA_LOCAL_DIR', path.resolve(__dirname, '../../uploads'))),
+    maxFileSizeBytes: getEnvVarAsInt('MEDIA_MAX_FILE_SIZE_MB', 5) * 1024 * 1024,
+    azureStorageAccount: getEnvVarOptional('AZURE_STORAGE_ACCOUNT'),
+    azureStorageContainer: getEnvVar('AZURE_STORAGE_CONTAINER', 'media'),
+    azureStorageSasToken: getEnvVarOptional('AZURE_STORAGE_SAS_TOKEN'),
+  },
+  email: {
+    enabled: getEnvVarAsBool('EMAIL_ENABLED', false),
+    transport: getEnvVar('EMAIL_TRANSPORT', 'smtp') as 'smtp' | 'file' | 'console',
+    from: getEnvVar('EMAIL_FROM', 'BlogApp <no-reply@localhost>'),
+    smtpHost: getEnvVarOptional('SMTP_HOST'),
+    smtpPort: getEnvVarAsInt('SMTP_PORT', 587),
+    smtpSecure: getEnvVarAsBool('SMTP_SECURE', false),
+    smtpUser: getEnvVarOptional('SMTP_USER'),
+    smtpPassword: getEnvVarOptional('SMTP_PASSWORD'),
+    fileDir: path.resolve(getEnvVar('EMAIL_FILE_DIR', path.resolve(__dirname, '../../mail'))),
+    workerIntervalMs: getEnvVarAsInt('EMAIL_WORKER_INTERVAL_MS', 30000),
+    digestHourUtc: getEnvVarAsInt('EMAIL_DIGEST_HOUR_UTC', 8),
+    unsubscribeSecret: getEnvVarOptional('EMAIL_UNSUBSCRIBE_SECRET'),
+  },
+  webhooks: {
+    workerIntervalMs: getEnvVarAsInt('WEBHOOK_WORKER_INTERVAL_MS', 10000),
+    timeoutMs: getEnvVarAsInt('WEBHOOK_TIMEOUT_MS', 10000),
+  },
+  events: {
+    outboxEnabled: getEnvVarAsBool('EVENT_OUTBOX_ENABLED', false),
+    relayIntervalMs: getEnvVarAsInt('EVENT_RELAY_INTERVAL_MS', 5000),
+  },
 };
 
 export const isProduction = (): boolean => config.nodeEnv === 'production';
@@ -8,6 +8,7 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import jwksClient from 'jwks-rsa';
 import { config } from '../config/environment';
+import { IUser, User } from '../models';
 import { logger } from '../utils/logger';
 import { ApiError } from './error.middleware';
 
@@ -31,6 +32,7 @@ export interface AuthenticatedUser {
   email: string;
   preferredUsername: string;
   roles?: string[];
+  exp?: number; // Token expiry (seconds since epoch); long-lived streams close at this time
 }
 
 // JWKS client for fetching Microsoft signing keys
@@ -110,12 +112,23 @@ async function validateToken(token: string): Promise<AuthenticatedUser> {
     email,
     preferredUsername: (payload.preferred_username as string) ?? (payload.upn as string) ?? '',
     roles: payload.roles as string[] | undefined,
+    exp: payload.exp,
   };
 }
 
+/**
+ * Whether an admin deactivated this user (see PUT /api/admin/users/:username/status)
+ * Users without a profile yet are active.
+ */
+async function isDeactivated(oid: string): Promise<boolean> {
+  const profile = await User.findOne({ oid }).select('isActive').lean();
+  return profile !== null && !profile.isActive;
+}
+
 /**
  * Authentication middleware
- * Requires valid JWT in Authorization header
+ * Requires valid JWT in Authorization header. Deactivated users are rejected
+ * on every route.
  */
 export async function authenticate(
   req: Request,
@@ -141,6 +154,11 @@ export async function authenticate(
 
     // Validate token and extract user
     const user = await validateToken(token);
+
+    if (await isDeactivated(user.oid)) {
+      throw ApiError.forbidden('Account is deactivated');
+    }
+
     req.user = user;
 
     logger.debug('User authenticated:', { oid: user.oid, name: user.name });
@@ -161,7 +179,8 @@ export async function authenticate(
 
 /**
  * Optional authentication middleware
- * Attaches user if token is valid, continues without user if no token
+ * Attaches user if token is valid, continues without user if no token.
+ * Deactivated users continue as anonymous readers.
  */
 export async function optionalAuthenticate(
   req: Request,
@@ -180,7 +199,9 @@ export async function optionalAuthenticate(
     const token = authHeader.substring(7);
     if (token) {
       const user = await validateToken(token);
-      req.user = user;
+      if (!(await isDeactivated(user.oid))) {
+        req.user = user;
+      }
     }
 
     next();
@@ -189,3 +210,33 @@ export async function optionalAuthenticate(
     next();
   }
 }
+
+/**
+ * Authorization middleware factory
+ * Must run after `authenticate`. Grants access when the role is either
+ * assigned as an Entra ID app role in the token (`roles` claim) or stored
+ * on the user's profile (`IUser.role`).
+ *
+ * Usage: router.use(authenticate, authorize('admin'))
+ */
+export function authorize(role: IUser['role']) {
+  return async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw ApiError.unauthorized();
+      }
+
+      const user = await User.findOne({ oid: req.user.oid }).select('role').lean();
+
+      const hasTokenRole = req.user.roles?.some((r) => r.toLowerCase() === role) ?? false;
+      if (!hasTokenRole && user?.role !== role) {
+        logger.warn('Authorization denied:', { oid: req.user.oid, requiredRole: role });
+        throw ApiError.forbidden(`Requires ${role} role`);
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Bookmark Model
+ * A post saved to a reader's reading list
+ * Reference: /design/DatabaseDesign.md
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IBookmark extends Document {
+  user: Types.ObjectId;
+  post: Types.ObjectId;
+  createdAt: Date;
+}
+
+const bookmarkSchema = new Schema<IBookmark>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    post: {
+      type: Schema.Types.ObjectId,
+      ref: 'Post',
+      required: true,
+      index: true, // Cleanup when a post is deleted or archived
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'bookmarks',
+  }
+);
+
+// One bookmark per user per post
+bookmarkSchema.index({ user: 1, post: 1 }, { unique: true });
+
+// Reading list, most recently saved first
+bookmarkSchema.index({ user: 1, createdAt: -1 });
+
+export const Bookmark = mongoose.model<IBookmark>('Bookmark', bookmarkSchema);
@@ -13,6 +13,7 @@ export interface IComment extends Document {
   parentComment?: Types.ObjectId;
   isEdited: boolean;
   isDeleted: boolean;
+  isHidden: boolean; // Hidden by a moderator (reversible, unlike isDeleted)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -49,6 +50,10 @@ const commentSchema = new Schema<IComment>(
       type: Boolean,
       default: false,
     },
+    isHidden: {
+      type: Boolean,
+      default: false,
+    },
   },
   {
     timestamps: true,
@@ -56,10 +61,10 @@ const commentSchema = new Schema<IComment>(
   }
 );
 
-// Compound index for listing comments on a post
-commentSchema.index({ post: 1, isDeleted: 1, createdAt: 1 });
+// Compound index for listing comments on a post (_id: cursor tie-breaker)
+commentSchema.index({ post: 1, isDeleted: 1, createdAt: 1, _id: 1 });
 
 // Index for threaded comments
-commentSchema.index({ parentComment: 1, createdAt: 1 });
+commentSchema.index({ parentComment: 1, createdAt: 1, _id: 1 });
 
 export const Comment = mongoose.model<IComment>('Comment', commentSchema);
@@ -0,0 +1,103 @@
+/**
+ * Email Outbox Model
+ * Emails waiting to be rendered and sent by the email worker
+ * Reference: /design/DatabaseDesign.md
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const EMAIL_TEMPLATES = ['reply', 'new-post', 'digest'] as const;
+export type EmailTemplate = (typeof EMAIL_TEMPLATES)[number];
+
+// pending: due at nextAttemptAt; sending: claimed by a worker until lockedUntil;
+// batched: folded into a digest email; sent / failed: final
+export const EMAIL_STATUSES = ['pending', 'sending', 'batched', 'sent', 'failed'] as const;
+export type EmailStatus = (typeof EMAIL_STATUSES)[number];
+
+// Sent, batched and failed entries are pruned automatically after this many days
+export const EMAIL_RETENTION_DAYS = 30;
+
+export interface IEmailOutbox extends Document {
+  user: Types.ObjectId; // Recipient; the address is looked up when sending
+  template: EmailTemplate;
+  data: Record<string, unknown>; // Template input (ids and snapshots, not rendered text)
+  digest: boolean; // Collected into the recipient's daily digest instead of sent on its own
+  status: EmailStatus;
+  dedupeKey?: string; // Same event queued twice (e.g. a post republished) is sent once
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date;
+  lastError?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const emailOutboxSchema = new Schema<IEmailOutbox>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    template: {
+      type: String,
+      enum: EMAIL_TEMPLATES,
+      required: true,
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    digest: {
+      type: Boolean,
+      default: false,
+    },
+    status: {
+      type: String,
+      enum: EMAIL_STATUSES,
+      default: 'pending',
+    },
+    dedupeKey: {
+      type: String,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+      maxlength: 1000,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'emailOutbox',
+  }
+);
+
+// Worker: due entries in order
+emailOutboxSchema.index({ status: 1, digest: 1, nextAttemptAt: 1 });
+
+// Worker: entries whose claim expired (worker crashed mid-send)
+emailOutboxSchema.index({ status: 1, lockedUntil: 1 });
+
+emailOutboxSchema.index({ dedupeKey: 1 }, { unique: true, sparse: true });
+
+// TTL: drop finished entries (completedAt is only set once an entry is final)
+emailOutboxSchema.index(
+  { completedAt: 1 },
+  { expireAfterSeconds: EMAIL_RETENTION_DAYS * 24 * 60 * 60 }
+);
+
+export const EmailOutbox = mongoose.model<IEmailOutbox>('EmailOutbox', emailOutboxSchema);
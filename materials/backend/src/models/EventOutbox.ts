@@ -0,0 +1,90 @@
+/**
+ * Event Outbox Model
+ * Domain events persisted for durable delivery to their handlers (EVENT_OUTBOX_ENABLED)
+ * Reference: /design/DatabaseDesign.md
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+// pending: due at nextAttemptAt; processing: claimed by a relay until lockedUntil;
+// done / failed: final
+export const EVENT_OUTBOX_STATUSES = ['pending', 'processing', 'done', 'failed'] as const;
+export type EventOutboxStatus = (typeof EVENT_OUTBOX_STATUSES)[number];
+
+// Processed events are pruned automatically after this many days
+export const EVENT_OUTBOX_RETENTION_DAYS = 7;
+
+export interface IEventOutbox extends Document {
+  name: string; // Event name, e.g. 'post.published'
+  payload: Record<string, unknown>;
+  occurredAt: Date;
+  status: EventOutboxStatus;
+  completedHandlers: string[]; // Handlers that already succeeded are not run again on retry
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date;
+  lastError?: string;
+  completedAt?: Date;
+}
+
+const eventOutboxSchema = new Schema<IEventOutbox>(
+  {
+    name: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    occurredAt: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: EVENT_OUTBOX_STATUSES,
+      default: 'pending',
+    },
+    completedHandlers: {
+      type: [String],
+      default: [],
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+      maxlength: 1000,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    collection: 'eventOutbox',
+    minimize: false, // Keep empty payloads as {}
+  }
+);
+
+// Relay: due events in order
+eventOutboxSchema.index({ status: 1, nextAttemptAt: 1 });
+
+// Relay: events whose claim expired (relay crashed mid-dispatch)
+eventOutboxSchema.index({ status: 1, lockedUntil: 1 });
+
+// TTL: drop processed events (completedAt is only set once an event is final)
+eventOutboxSchema.index(
+  { completedAt: 1 },
+  { expireAfterSeconds: EVENT_OUTBOX_RETENTION_DAYS * 24 * 60 * 60 }
+);
+
+export const EventOutbox = mongoose.model<IEventOutbox>('EventOutbox', eventOutboxSchema);
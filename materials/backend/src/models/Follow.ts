@@ -0,0 +1,40 @@
+/**
+ * Follow Model
+ * A reader following an author; their published posts appear in the reader's feed
+ * Reference: /design/DatabaseDesign.md
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IFollow extends Document {
+  follower: Types.ObjectId;
+  followee: Types.ObjectId;
+  createdAt: Date;
+}
+
+const followSchema = new Schema<IFollow>(
+  {
+    follower: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    followee: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'follows',
+  }
+);
+
+// One follow per pair; also serves "who does this user follow" and following counts
+followSchema.index({ follower: 1, followee: 1 }, { unique: true });
+
+// Follower counts
+followSchema.index({ followee: 1 });
+
+export const Follow = mongoose.model<IFollow>('Follow', followSchema);
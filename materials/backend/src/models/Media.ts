@@ -0,0 +1,92 @@
+/**
+ * Media Model
+ * Uploaded images and where they are used
+ * Reference: /design/DatabaseDesign.md
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IMedia extends Document {
+  owner: Types.ObjectId;
+  storageDriver: string; // Driver that holds the files (local, azure-blob)
+  key: string;
+  url: string;
+  thumbnailKey: string;
+  thumbnailUrl: string;
+  originalName: string;
+  contentType: string;
+  size: number; // Bytes
+  width: number;
+  height: number;
+  usedBy: Types.ObjectId[]; // Posts referencing this image as featuredImageUrl
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const mediaSchema = new Schema<IMedia>(
+  {
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    storageDriver: {
+      type: String,
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    url: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    thumbnailKey: {
+      type: String,
+      required: true,
+    },
+    thumbnailUrl: {
+      type: String,
+      required: true,
+    },
+    originalName: {
+      type: String,
+      maxlength: 255,
+    },
+    contentType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+    },
+    width: {
+      type: Number,
+      required: true,
+    },
+    height: {
+      type: Number,
+      required: true,
+    },
+    usedBy: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Post',
+    }],
+  },
+  {
+    timestamps: true,
+    collection: 'media',
+  }
+);
+
+// Media library listing
+mediaSchema.index({ owner: 1, createdAt: -1 });
+
+// Usage cleanup when posts change or are deleted
+mediaSchema.index({ usedBy: 1 });
+
+export const Media = mongoose.model<IMedia>('Media', mediaSchema);
@@ -0,0 +1,86 @@
+/**
+ * Notification Model
+ * In-app notification for a user about activity on their posts, comments or profile
+ * Reference: /design/DatabaseDesign.md
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { REACTION_TYPES, ReactionType } from './Reaction';
+
+export const NOTIFICATION_TYPES = ['comment', 'reply', 'reaction', 'follow'] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+// Notifications are pruned automatically after this many days
+export const NOTIFICATION_RETENTION_DAYS = 90;
+
+export interface INotification extends Document {
+  recipient: Types.ObjectId;
+  actor: Types.ObjectId;
+  type: NotificationType;
+  post?: Types.ObjectId; // comment, reply, reaction
+  comment?: Types.ObjectId; // New comment (comment, reply) or the comment reacted to
+  reactionType?: ReactionType;
+  readAt?: Date | null;
+  createdAt: Date;
+}
+
+const notificationSchema = new Schema<INotification>(
+  {
+    recipient: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: NOTIFICATION_TYPES,
+      required: true,
+    },
+    post: {
+      type: Schema.Types.ObjectId,
+      ref: 'Post',
+      index: true, // Cleanup when a post is deleted
+    },
+    comment: {
+      type: Schema.Types.ObjectId,
+      ref: 'Comment',
+    },
+    reactionType: {
+      type: String,
+      enum: REACTION_TYPES,
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'notifications',
+  }
+);
+
+// Recipient's notifications, newest first (cursor key)
+notificationSchema.index({ recipient: 1, createdAt: -1, _id: -1 });
+
+// Unread counts
+notificationSchema.index({ recipient: 1, readAt: 1 });
+
+// One comment or reply notification per comment and recipient (idempotent upserts)
+notificationSchema.index(
+  { recipient: 1, type: 1, comment: 1 },
+  { unique: true, partialFilterExpression: { type: { $in: ['comment', 'reply'] } } }
+);
+
+// TTL: drop old notifications
+notificationSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: NOTIFICATION_RETENTION_DAYS * 24 * 60 * 60 }
+);
+
+export const Notification = mongoose.model<INotification>('Notification', notificationSchema);
@@ -9,14 +9,17 @@ import mongoose, { Document, Schema, Types } from 'mongoose';
 export interface IPost extends Document {
   title: string;
   slug: string;
-  content: string;
+  content: string; // Markdown source (canonical)
+  contentHtml?: string; // Sanitized HTML rendered from content
   excerpt?: string;
   author: Types.ObjectId;
-  status: 'draft' | 'published' | 'archived';
+  status: 'draft' | 'scheduled' | 'published' | 'archived';
   tags: string[];
   featuredImageUrl?: string;
   viewCount: number;
   publishedAt?: Date;
+  publishAt?: Date; // When a scheduled post goes live
+  moderatedAt?: Date; // Force-archived by an admin; only an admin can change the status
   createdAt: Date;
   updatedAt: Date;
 }
@@ -41,6 +44,9 @@ const postSchema = new Schema<IPost>(
       type: String,
       required: true,
     },
+    contentHtml: {
+      type: String,
+    },
     excerpt: {
       type: String,
       maxlength: 500,
@@ -53,7 +59,7 @@ const postSchema = new Schema<IPost>(
     },
     status: {
       type: String,
-      enum: ['draft', 'published', 'archived'],
+      enum: ['draft', 'scheduled', 'published', 'archived'],
       default: 'draft',
       index: true,
     },
@@ -72,6 +78,12 @@ const postSchema = new Schema<IPost>(
     publishedAt: {
       type: Date,
     },
+    publishAt: {
+      type: Date,
+    },
+    moderatedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -80,9 +92,11 @@ const postSchema = new Schema<IPost>(
 );
 
 // Compound indexes for common queries
-postSchema.index({ status: 1, publishedAt: -1 }); // List published posts
-postSchema.index({ author: 1, status: 1, createdAt: -1 }); // User's posts
-postSchema.index({ tags: 1, status: 1, publishedAt: -1 }); // Posts by tag
+postSchema.index({ status: 1, publishedAt: -1, _id: -1 }); // List published posts (cursor key)
+postSchema.index({ author: 1, status: 1, createdAt: -1, _id: -1 }); // User's posts (cursor key)
+postSchema.index({ tags: 1, status: 1, publishedAt: -1, _id: -1 }); // Posts by tag
+postSchema.index({ author: 1, status: 1, publishedAt: -1, _id: -1 }); // Author listings and follow feed
+postSchema.index({ status: 1, publishAt: 1 }); // Scheduler: due scheduled posts
 
 // Text index for search
 postSchema.index({ title: 'text', content: 'text', tags: 'text' });
@@ -0,0 +1,71 @@
+/**
+ * PostRevision Model
+ * Snapshot of a post's editable fields, recorded on every save
+ * Reference: /design/DatabaseDesign.md
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IPostRevision extends Document {
+  post: Types.ObjectId;
+  revision: number; // 1-based, increasing per post
+  title: string;
+  content: string; // Markdown source at the time of the save
+  excerpt?: string;
+  tags: string[];
+  status: 'draft' | 'scheduled' | 'published' | 'archived';
+  editor: Types.ObjectId;
+  restoredFrom?: number;
+  createdAt: Date;
+}
+
+const postRevisionSchema = new Schema<IPostRevision>(
+  {
+    post: {
+      type: Schema.Types.ObjectId,
+      ref: 'Post',
+      required: true,
+    },
+    revision: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    content: {
+      type: String,
+      required: true,
+    },
+    excerpt: {
+      type: String,
+    },
+    tags: [{
+      type: String,
+    }],
+    status: {
+      type: String,
+      enum: ['draft', 'scheduled', 'published', 'archived'],
+      required: true,
+    },
+    editor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    restoredFrom: {
+      type: Number,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }, // Revisions are immutable
+    collection: 'postRevisions',
+  }
+);
+
+// One revision number per post; also serves "list revisions newest first"
+postRevisionSchema.index({ post: 1, revision: -1 }, { unique: true });
+
+export const PostRevision = mongoose.model<IPostRevision>('PostRevision', postRevisionSchema);
@@ -0,0 +1,42 @@
+/**
+ * Post View Model
+ * Short-lived marker of a counted view, used to ignore repeat views by the same viewer
+ * Reference: /design/DatabaseDesign.md
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IPostView extends Document {
+  post: Types.ObjectId;
+  viewer: string; // 'user:<oid>' or a hash of IP and User-Agent for anonymous readers
+  expiresAt: Date;
+}
+
+const postViewSchema = new Schema<IPostView>(
+  {
+    post: {
+      type: Schema.Types.ObjectId,
+      ref: 'Post',
+      required: true,
+    },
+    viewer: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    collection: 'postViews',
+  }
+);
+
+// The insert that wins this index is the one that counts
+postViewSchema.index({ post: 1, viewer: 1 }, { unique: true });
+
+// TTL: MongoDB removes markers once the dedupe window has passed
+postViewSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const PostView = mongoose.model<IPostView>('PostView', postViewSchema);
@@ -0,0 +1,40 @@
+/**
+ * Post View Daily Model
+ * Counted views per post per UTC day, for view statistics
+ * Reference: /design/DatabaseDesign.md
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IPostViewDaily extends Document {
+  post: Types.ObjectId;
+  day: string; // UTC date, YYYY-MM-DD
+  views: number;
+}
+
+const postViewDailySchema = new Schema<IPostViewDaily>(
+  {
+    post: {
+      type: Schema.Types.ObjectId,
+      ref: 'Post',
+      required: true,
+    },
+    day: {
+      type: String,
+      required: true,
+      match: /^\d{4}-\d{2}-\d{2}$/,
+    },
+    views: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    collection: 'postViewsDaily',
+  }
+);
+
+// One bucket per post per day; also serves date-range reads for a post
+postViewDailySchema.index({ post: 1, day: 1 }, { unique: true });
+
+export const PostViewDaily = mongoose.model<IPostViewDaily>('PostViewDaily', postViewDailySchema);
@@ -0,0 +1,54 @@
+/**
+ * Reaction Model
+ * One emoji reaction by one user on a post or comment
+ * Reference: /design/DatabaseDesign.md
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Stored as names; clients map them to emoji
+export const REACTION_TYPES = ['like', 'love', 'laugh', 'wow', 'celebrate'] as const;
+export type ReactionType = (typeof REACTION_TYPES)[number];
+
+export type ReactionTargetType = 'post' | 'comment';
+
+export interface IReaction extends Document {
+  targetType: ReactionTargetType;
+  target: Types.ObjectId; // Post or Comment
+  user: Types.ObjectId;
+  type: ReactionType;
+  createdAt: Date;
+}
+
+const reactionSchema = new Schema<IReaction>(
+  {
+    targetType: {
+      type: String,
+      enum: ['post', 'comment'],
+      required: true,
+    },
+    target: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: REACTION_TYPES,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'reactions',
+  }
+);
+
+// One reaction per user per type per target; the prefix also serves counts by target
+reactionSchema.index({ targetType: 1, target: 1, user: 1, type: 1 }, { unique: true });
+
+export const Reaction = mongoose.model<IReaction>('Reaction', reactionSchema);
@@ -6,16 +6,36 @@
 
 import mongoose, { Document, Schema } from 'mongoose';
 
+export const EMAIL_FREQUENCIES = ['off', 'instant', 'daily'] as const;
+export type EmailFrequency = (typeof EMAIL_FREQUENCIES)[number];
+
+/**
+ * Which emails a user receives, and whether right away or in the daily digest
+ */
+export interface EmailPreferences {
+  replies: EmailFrequency; // Replies to their comments
+  newPosts: EmailFrequency; // New posts from authors they follow
+}
+
+// Also applied when reading users created before preferences existed
+export const DEFAULT_EMAIL_PREFERENCES: EmailPreferences = {
+  replies: 'instant',
+  newPosts: 'daily',
+};
+
 export interface IUser extends Document {
   oid: string; // Microsoft Entra ID Object ID
   email: string;
   displayName: string;
+  displayNameCustomized: boolean; // Set once edited; stops syncing from token claims
   username: string;
   bio?: string;
   avatarUrl?: string;
   isActive: boolean;
   role: 'user' | 'admin';
   lastLoginAt?: Date;
+  usernameChangedAt?: Date;
+  emailPreferences: EmailPreferences;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -43,6 +63,10 @@ const userSchema = new Schema<IUser>(
       trim: true,
       maxlength: 100,
     },
+    displayNameCustomized: {
+      type: Boolean,
+      default: false,
+    },
     username: {
       type: String,
       required: true,
@@ -73,6 +97,27 @@ const userSchema = new Schema<IUser>(
     lastLoginAt: {
       type: Date,
     },
+    usernameChangedAt: {
+      type: Date,
+    },
+    emailPreferences: {
+      type: new Schema<EmailPreferences>(
+        {
+          replies: {
+            type: String,
+            enum: EMAIL_FREQUENCIES,
+            default: DEFAULT_EMAIL_PREFERENCES.replies,
+          },
+          newPosts: {
+            type: String,
+            enum: EMAIL_FREQUENCIES,
+            default: DEFAULT_EMAIL_PREFERENCES.newPosts,
+          },
+        },
+        { _id: false }
+      ),
+      default: (): Partial<EmailPreferences> => ({}),
+    },
   },
   {
     timestamps: true, // Adds createdAt and updatedAt
@@ -0,0 +1,40 @@
+/**
+ * Username Redirect Model
+ * Maps a user's previous usernames to the account so old profile URLs keep working
+ * Reference: /design/DatabaseDesign.md
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IUsernameRedirect extends Document {
+  oldUsername: string;
+  user: Types.ObjectId;
+  createdAt: Date;
+}
+
+const usernameRedirectSchema = new Schema<IUsernameRedirect>(
+  {
+    oldUsername: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'usernameRedirects',
+  }
+);
+
+export const UsernameRedirect = mongoose.model<IUsernameRedirect>(
+  'UsernameRedirect',
+  usernameRedirectSchema
+);
@@ -0,0 +1,73 @@
+/**
+ * Webhook Model
+ * Admin-managed endpoint that receives post and comment events
+ * Reference: /design/DatabaseDesign.md
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const WEBHOOK_EVENTS = [
+  'post.created',
+  'post.updated',
+  'post.published',
+  'post.deleted',
+  'comment.created',
+  'comment.updated',
+  'comment.deleted',
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export interface IWebhook extends Document {
+  url: string;
+  description?: string;
+  events: WebhookEvent[]; // Only these event types are delivered
+  secret: string; // HMAC key for the signature header; never returned after creation
+  isActive: boolean;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookSchema = new Schema<IWebhook>(
+  {
+    url: {
+      type: String,
+      required: true,
+      maxlength: 2000,
+    },
+    description: {
+      type: String,
+      maxlength: 200,
+    },
+    events: {
+      type: [{ type: String, enum: WEBHOOK_EVENTS }],
+      validate: {
+        validator: (events: string[]): boolean => events.length > 0,
+        message: 'At least one event is required',
+      },
+    },
+    secret: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'webhooks',
+  }
+);
+
+// Subscribers of an event type
+webhookSchema.index({ events: 1, isActive: 1 });
+
+export const Webhook = mongoose.model<IWebhook>('Webhook', webhookSchema);
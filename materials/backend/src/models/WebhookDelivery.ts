@@ -0,0 +1,117 @@
+/**
+ * Webhook Delivery Model
+ * One event sent (or to be sent) to one webhook; doubles as the delivery log
+ * Reference: /design/DatabaseDesign.md
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// pending: due at nextAttemptAt; sending: claimed by a worker until lockedUntil;
+// succeeded / failed: final
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'sending', 'succeeded', 'failed'] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+// Finished deliveries are pruned automatically after this many days
+export const WEBHOOK_DELIVERY_RETENTION_DAYS = 30;
+
+export interface IWebhookDelivery extends Document {
+  webhook: Types.ObjectId;
+  event: string; // A WebhookEvent, or 'ping'
+  eventId: string; // Same for every webhook and redelivery of one event (receivers dedupe on it)
+  payload: Record<string, unknown>; // Request body as sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date;
+  responseStatus?: number;
+  responseBody?: string; // Truncated
+  lastError?: string;
+  durationMs?: number;
+  redeliveryOf?: Types.ObjectId;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    webhook: {
+      type: Schema.Types.ObjectId,
+      ref: 'Webhook',
+      required: true,
+    },
+    event: {
+      type: String,
+      required: true,
+    },
+    eventId: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: WEBHOOK_DELIVERY_STATUSES,
+      default: 'pending',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    responseStatus: {
+      type: Number,
+    },
+    responseBody: {
+      type: String,
+      maxlength: 1000,
+    },
+    lastError: {
+      type: String,
+      maxlength: 1000,
+    },
+    durationMs: {
+      type: Number,
+    },
+    redeliveryOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'WebhookDelivery',
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'webhookDeliveries',
+  }
+);
+
+// Worker: due deliveries in order
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+// Worker: deliveries whose claim expired (worker crashed mid-request)
+webhookDeliverySchema.index({ status: 1, lockedUntil: 1 });
+
+// Delivery log per webhook, newest first
+webhookDeliverySchema.index({ webhook: 1, createdAt: -1 });
+
+// TTL: drop finished deliveries (completedAt is only set once a delivery is final)
+webhookDeliverySchema.index(
+  { completedAt: 1 },
+  { expireAfterSeconds: WEBHOOK_DELIVERY_RETENTION_DAYS * 24 * 60 * 60 }
+);
+
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>(
+  'WebhookDelivery',
+  webhookDeliverySchema
+);
@@ -3,6 +3,44 @@
  * Re-exports all Mongoose models
  */
 
-export { User, IUser } from './User';
+export {
+  User,
+  IUser,
+  EMAIL_FREQUENCIES,
+  DEFAULT_EMAIL_PREFERENCES,
+  EmailFrequency,
+  EmailPreferences,
+} from './User';
 export { Post, IPost, generateSlug } from './Post';
 export { Comment, IComment } from './Comment';
+export { PostRevision, IPostRevision } from './PostRevision';
+export { Media, IMedia } from './Media';
+export { UsernameRedirect, IUsernameRedirect } from './UsernameRedirect';
+export {
+  Reaction,
+  IReaction,
+  REACTION_TYPES,
+  ReactionType,
+  ReactionTargetType,
+} from './Reaction';
+export { PostView, IPostView } from './PostView';
+export { PostViewDaily, IPostViewDaily } from './PostViewDaily';
+export { Bookmark, IBookmark } from './Bookmark';
+export { Follow, IFollow } from './Follow';
+export { Notification, INotification, NOTIFICATION_TYPES, NotificationType } from './Notification';
+export {
+  EmailOutbox,
+  IEmailOutbox,
+  EMAIL_TEMPLATES,
+  EmailTemplate,
+  EMAIL_STATUSES,
+  EmailStatus,
+} from './EmailOutbox';
+export { Webhook, IWebhook, WEBHOOK_EVENTS, WebhookEvent } from './Webhook';
+export {
+  WebhookDelivery,
+  IWebhookDelivery,
+  WEBHOOK_DELIVERY_STATUSES,
+  WebhookDeliveryStatus,
+} from './WebhookDelivery';
+export { EventOutbox, IEventOutbox, EVENT_OUTBOX_STATUSES, EventOutboxStatus } from './EventOutbox';
@@ -0,0 +1,410 @@
+/**
+ * Admin Routes
+ * Moderation API for administrators
+ * Reference: /design/BackendApplicationDesign.md
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+import { ApiError } from '../middleware/error.middleware';
+import { Comment, Post, User } from '../models';
+import { deleteBookmarks } from '../services/bookmarks.service';
+import { publishEvent, runInTransaction } from '../services/events.service';
+import { deletePostDependents } from '../services/posts.service';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Every admin endpoint requires an authenticated admin
+router.use(authenticate, authorize('admin'));
+
+/**
+ * Validation error handler
+ */
+function handleValidation(req: Request, _res: Response, next: NextFunction): void {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    next(ApiError.badRequest('Validation failed', { errors: errors.array() }));
+    return;
+  }
+  next();
+}
+
+/**
+ * GET /api/admin/posts
+ * List all posts regardless of status
+ */
+router.get(
+  '/posts',
+  [
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('status').optional().isIn(['draft', 'scheduled', 'published', 'archived']),
+    query('author').optional().isString().trim(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 20;
+      const skip = (page - 1) * limit;
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const filter: Record<string, any> = {};
+
+      if (req.query.status) {
+        filter.status = req.query.status;
+      }
+
+      if (req.query.author) {
+        const author = await User.findOne({ username: req.query.author as string });
+        if (!author) {
+          res.json({ posts: [], total: 0, page, limit, totalPages: 0 });
+          return;
+        }
+        filter.author = author._id;
+      }
+
+      const [posts, total] = await Promise.all([
+        Post.find(filter)
+          .select('-content -contentHtml')
+          .sort({ updatedAt: -1 })
+          .skip(skip)
+          .limit(limit)
+          .populate('author', 'displayName username email isActive')
+          .lean(),
+        Post.countDocuments(filter),
+      ]);
+
+      res.json({
+        posts,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/admin/posts/:slug/archive
+ * Force-archive a post (hides it from readers; the author can still see it)
+ * The author cannot change the status again until an admin restores the post.
+ */
+router.put(
+  '/posts/:slug/archive',
+  [param('slug').isString().trim()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const post = await runInTransaction(async (session) => {
+        const archived = await Post.findOneAndUpdate(
+          { slug: req.params.slug },
+          { $set: { status: 'archived', moderatedAt: new Date() } },
+          { new: true, session }
+        )
+          .populate('author', 'displayName username')
+          .lean();
+        if (archived) {
+          await publishEvent(
+            'post.updated',
+            { postId: archived._id, status: archived.status },
+            { session }
+          );
+        }
+        return archived;
+      });
+
+      if (!post) {
+        next(ApiError.notFound('Post'));
+        return;
+      }
+
+      // Archived posts leave every reading list
+      await deleteBookmarks(post._id);
+
+      logger.info('Admin archived post:', { postId: post._id, adminOid: req.user!.oid });
+
+      res.json(post);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/admin/posts/:slug/restore
+ * Lift a force-archive: the post returns as published (or as a draft if it never
+ * was published) and the author controls its status again
+ */
+router.put(
+  '/posts/:slug/restore',
+  [param('slug').isString().trim()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const post = await Post.findOne({ slug: req.params.slug });
+
+      if (!post) {
+        next(ApiError.notFound('Post'));
+        return;
+      }
+      if (!post.moderatedAt) {
+        next(ApiError.badRequest('Post was not archived by an admin'));
+        return;
+      }
+
+      post.status = post.publishedAt ? 'published' : 'draft';
+      post.moderatedAt = undefined;
+      await runInTransaction(async (session) => {
+        await post.save({ session });
+        await publishEvent('post.updated', { postId: post._id, status: post.status }, { session });
+      });
+
+      logger.info('Admin restored post:', { postId: post._id, adminOid: req.user!.oid });
+
+      const restored = await Post.findById(post._id)
+        .populate('author', 'displayName username')
+        .lean();
+
+      res.json(restored);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/posts/:slug
+ * Delete any post along with its comments and revisions
+ */
+router.delete(
+  '/posts/:slug',
+  [param('slug').isString().trim()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const post = await Post.findOne({ slug: req.params.slug }).select('_id slug title');
+
+      if (!post) {
+        next(ApiError.notFound('Post'));
+        return;
+      }
+
+      // The post and its event commit together; what belonged to it is removed after
+      await runInTransaction(async (session) => {
+        await Post.deleteOne({ _id: post._id }, { session });
+        await publishEvent(
+          'post.deleted',
+          { postId: post._id, slug: post.slug, title: post.title },
+          { session }
+        );
+      });
+      await deletePostDependents(post._id);
+
+      logger.info('Admin deleted post:', { postId: post._id, adminOid: req.user!.oid });
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/admin/comments
+ * List all comments, including hidden and deleted ones
+ */
+router.get(
+  '/comments',
+  [
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('post').optional().isString().trim(),
+    query('hidden').optional().isBoolean().toBoolean(),
+    query('deleted').optional().isBoolean().toBoolean(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 20;
+      const skip = (page - 1) * limit;
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const filter: Record<string, any> = {};
+
+      if (req.query.post) {
+        const post = await Post.findOne({ slug: req.query.post as string }).select('_id');
+        if (!post) {
+          res.json({ comments: [], total: 0, page, limit, totalPages: 0 });
+          return;
+        }
+        filter.post = post._id;
+      }
+
+      if (req.query.hidden !== undefined) {
+        filter.isHidden = (req.query.hidden as unknown as boolean) ? true : { $ne: true };
+      }
+
+      if (req.query.deleted !== undefined) {
+        filter.isDeleted = req.query.deleted as unknown as boolean;
+      }
+
+      const [comments, total] = await Promise.all([
+        Comment.find(filter)
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit)
+          .populate('author', 'displayName username email isActive')
+          .populate('post', 'title slug status')
+          .lean(),
+        Comment.countDocuments(filter),
+      ]);
+
+      res.json({
+        comments,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/admin/comments/:id/visibility
+ * Hide or unhide a comment
+ */
+router.put(
+  '/comments/:id/visibility',
+  [param('id').isMongoId(), body('hidden').isBoolean().toBoolean()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const comment = await Comment.findByIdAndUpdate(
+        req.params.id,
+        { $set: { isHidden: req.body.hidden } },
+        { new: true }
+      )
+        .populate('author', 'displayName username')
+        .lean();
+
+      if (!comment) {
+        next(ApiError.notFound('Comment'));
+        return;
+      }
+
+      logger.info('Admin changed comment visibility:', {
+        commentId: comment._id,
+        hidden: comment.isHidden,
+        adminOid: req.user!.oid,
+      });
+
+      res.json(comment);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/admin/users
+ * List users, optionally filtered by active state
+ */
+router.get(
+  '/users',
+  [
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('isActive').optional().isBoolean().toBoolean(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 20;
+      const skip = (page - 1) * limit;
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const filter: Record<string, any> = {};
+
+      if (req.query.isActive !== undefined) {
+        filter.isActive = req.query.isActive as unknown as boolean;
+      }
+
+      const [users, total] = await Promise.all([
+        User.find(filter)
+          .select('displayName username email role isActive lastLoginAt createdAt')
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit)
+          .lean(),
+        User.countDocuments(filter),
+      ]);
+
+      res.json({
+        users,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/admin/users/:username/status
+ * Deactivate or reactivate a user account
+ */
+router.put(
+  '/users/:username/status',
+  [param('username').isString().trim(), body('isActive').isBoolean().toBoolean()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await User.findOne({ username: req.params.username });
+
+      if (!user) {
+        next(ApiError.notFound('User'));
+        return;
+      }
+
+      if (user.oid === req.user!.oid && !req.body.isActive) {
+        next(ApiError.badRequest('You cannot deactivate your own account'));
+        return;
+      }
+
+      user.isActive = req.body.isActive;
+      await user.save();
+
+      logger.info('Admin changed user status:', {
+        userId: user._id,
+        isActive: user.isActive,
+        adminOid: req.user!.oid,
+      });
+
+      res.json({
+        _id: user._id,
+        username: user.username,
+        displayName: user.displayName,
+        role: user.role,
+        isActive: user.isActive,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,173 @@
+/**
+ * Bookmarks Routes
+ * Signed-in readers' reading list
+ * Reference: /design/BackendApplicationDesign.md
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { authenticate } from '../middleware/auth.middleware';
+import { ApiError } from '../middleware/error.middleware';
+import { Bookmark, Post } from '../models';
+import { provisionUser } from '../services/provisioning.service';
+import { findViewerId } from '../services/users.service';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+/**
+ * Validation error handler
+ */
+function handleValidation(req: Request, _res: Response, next: NextFunction): void {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    next(ApiError.badRequest('Validation failed', { errors: errors.array() }));
+    return;
+  }
+  next();
+}
+
+interface BookmarkPage {
+  items: { bookmarkedAt: Date; post: Record<string, unknown> }[];
+  total: { count: number }[];
+}
+
+/**
+ * GET /api/bookmarks
+ * Current user's bookmarked posts, most recently saved first
+ * Posts that are no longer published are left out until they are published again
+ */
+router.get(
+  '/',
+  authenticate,
+  [
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 50 }).toInt(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 10;
+      const skip = (page - 1) * limit;
+
+      const userId = await findViewerId(req.user!.oid);
+      if (!userId) {
+        res.json({ posts: [], total: 0, page, limit, totalPages: 0 });
+        return;
+      }
+
+      const [result] = await Bookmark.aggregate<BookmarkPage>([
+        { $match: { user: userId } },
+        { $sort: { createdAt: -1, _id: -1 } },
+        {
+          $lookup: {
+            from: 'posts',
+            localField: 'post',
+            foreignField: '_id',
+            pipeline: [
+              { $match: { status: 'published' } },
+              { $project: { content: 0, contentHtml: 0 } },
+            ],
+            as: 'post',
+          },
+        },
+        { $unwind: '$post' },
+        {
+          $facet: {
+            items: [
+              { $skip: skip },
+              { $limit: limit },
+              { $project: { _id: 0, bookmarkedAt: '$createdAt', post: 1 } },
+            ],
+            total: [{ $count: 'count' }],
+          },
+        },
+      ]);
+
+      const items = result?.items ?? [];
+      const total = result?.total[0]?.count ?? 0;
+      await Post.populate(
+        items.map((item) => item.post),
+        { path: 'author', select: 'displayName username avatarUrl' }
+      );
+
+      res.json({
+        posts: items.map((item) => ({ ...item.post, bookmarkedAt: item.bookmarkedAt })),
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/bookmarks/:slug
+ * Bookmark a published post (idempotent)
+ */
+router.put(
+  '/:slug',
+  authenticate,
+  [param('slug').isString().trim()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const post = await Post.findOne({ slug: req.params.slug, status: 'published' }).select('_id');
+      if (!post) {
+        next(ApiError.notFound('Post'));
+        return;
+      }
+
+      const user = await provisionUser(req.user!);
+
+      await Bookmark.updateOne(
+        { user: user._id, post: post._id },
+        { $setOnInsert: { user: user._id, post: post._id } },
+        { upsert: true }
+      );
+
+      logger.debug('Bookmark added:', { userId: user._id, postId: post._id });
+
+      res.json({ bookmarked: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/bookmarks/:slug
+ * Remove a post from the reading list (idempotent)
+ */
+router.delete(
+  '/:slug',
+  authenticate,
+  [param('slug').isString().trim()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const [post, userId] = await Promise.all([
+        Post.findOne({ slug: req.params.slug }).select('_id'),
+        findViewerId(req.user!.oid),
+      ]);
+      if (!post) {
+        next(ApiError.notFound('Post'));
+        return;
+      }
+
+      if (userId) {
+        await Bookmark.deleteOne({ user: userId, post: post._id });
+      }
+
+      res.json({ bookmarked: false });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
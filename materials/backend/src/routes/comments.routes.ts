@@ -6,14 +6,31 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
+import { Types } from 'mongoose';
 import { authenticate, optionalAuthenticate } from '../middleware/auth.middleware';
 import { ApiError } from '../middleware/error.middleware';
-import { Comment, Post, User } from '../models';
+import { Comment, Post } from '../models';
+import {
+  attachReplies,
+  COMMENT_AUTHOR_FIELDS,
+  MAX_REPLY_DEPTH,
+  VISIBLE_COMMENT_FILTER,
+} from '../services/comments.service';
+import { publishEvent, runInTransaction } from '../services/events.service';
+import { provisionUser } from '../services/provisioning.service';
+import { attachReactions } from '../services/reactions.service';
+import { commentEvent, postChannel, subscribe } from '../services/realtime.service';
+import { findViewerId } from '../services/users.service';
+import { applyCursor, cursorSort, isCursor, toCursorPage } from '../utils/cursor';
 import { logger } from '../utils/logger';
 import { sanitizeHtml } from '../utils/sanitize';
+import { openEventStream } from '../utils/sse';
 
 const router = Router();
 
+// Most comments sent to a reconnecting stream; a client that missed more reloads the list
+const STREAM_REPLAY_LIMIT = 100;
+
 /**
  * Validation error handler
  */
@@ -26,9 +43,21 @@ function handleValidation(req: Request, _res: Response, next: NextFunction): voi
   next();
 }
 
+/**
+ * Validators for reply tree options shared by comment listings
+ * - depth: levels of nested replies to include (0 = reply counts only)
+ * - replyLimit: replies loaded per comment at each level
+ */
+const replyTreeValidators = [
+  query('depth').optional().isInt({ min: 0, max: MAX_REPLY_DEPTH }).toInt(),
+  query('replyLimit').optional().isInt({ min: 1, max: 20 }).toInt(),
+];
+
 /**
  * GET /api/posts/:slug/comments
- * Get comments for a post
+ * Get top-level comments for a post (newest first), with nested replies up to `depth`
+ * `cursor` (empty for the first page) switches to keyset pagination on (createdAt, _id);
+ * the first cursor page also carries `total` for the comment count heading
  */
 router.get(
   '/posts/:slug/comments',
@@ -36,14 +65,19 @@ router.get(
   [
     param('slug').isString().trim(),
     query('page').optional().isInt({ min: 1 }).toInt(),
+    query('cursor').optional().isString().custom(isCursor),
     query('limit').optional().isInt({ min: 1, max: 50 }).toInt(),
+    ...replyTreeValidators,
   ],
   handleValidation,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const page = (req.query.page as unknown as number) || 1;
+      const cursor = req.query.cursor as string | undefined;
       const limit = (req.query.limit as unknown as number) || 20;
       const skip = (page - 1) * limit;
+      const depth = (req.query.depth as unknown as number) ?? 0;
+      const replyLimit = (req.query.replyLimit as unknown as number) || 3;
 
       // Find the post
       const post = await Post.findOne({ slug: req.params.slug, status: 'published' });
@@ -53,18 +87,43 @@ router.get(
       }
 
       // Get comments
+      const filter = { post: post._id, ...VISIBLE_COMMENT_FILTER, parentComment: null };
+
+      if (cursor !== undefined) {
+        const [docs, total] = await Promise.all([
+          Comment.find(applyCursor(filter, 'createdAt', cursor, -1))
+            .sort(cursorSort('createdAt', -1))
+            .limit(limit + 1)
+            .populate('author', COMMENT_AUTHOR_FIELDS)
+            .lean(),
+          cursor === '' ? Comment.countDocuments(filter) : undefined,
+        ]);
+        const { items, nextCursor } = toCursorPage(docs, limit, 'createdAt');
+        const tree = await attachReplies(items, depth, replyLimit);
+
+        res.json({
+          comments: await attachReactions(tree, 'comment', await findViewerId(req.user?.oid)),
+          ...(total !== undefined && { total }),
+          nextCursor,
+          limit,
+        });
+        return;
+      }
+
       const [comments, total] = await Promise.all([
-        Comment.find({ post: post._id, isDeleted: false, parentComment: null })
-          .sort({ createdAt: -1 })
+        Comment.find(filter)
+          .sort(cursorSort('createdAt', -1))
           .skip(skip)
           .limit(limit)
-          .populate('author', 'displayName username avatarUrl')
+          .populate('author', COMMENT_AUTHOR_FIELDS)
           .lean(),
-        Comment.countDocuments({ post: post._id, isDeleted: false, parentComment: null }),
+        Comment.countDocuments(filter),
       ]);
 
+      const tree = await attachReplies(comments, depth, replyLimit);
+
       res.json({
-        comments,
+        comments: await attachReactions(tree, 'comment', await findViewerId(req.user?.oid)),
         total,
         page,
         limit,
@@ -76,6 +135,127 @@ router.get(
   }
 );
 
+/**
+ * GET /api/comments/:id/replies
+ * Paginated direct replies to a comment ("load more replies", oldest first),
+ * each with nested replies up to `depth`; supports `cursor` like the comment listing
+ */
+router.get(
+  '/comments/:id/replies',
+  optionalAuthenticate,
+  [
+    param('id').isMongoId(),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('cursor').optional().isString().custom(isCursor),
+    query('limit').optional().isInt({ min: 1, max: 50 }).toInt(),
+    ...replyTreeValidators,
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const cursor = req.query.cursor as string | undefined;
+      const limit = (req.query.limit as unknown as number) || 10;
+      const skip = (page - 1) * limit;
+      const depth = (req.query.depth as unknown as number) ?? 1;
+      const replyLimit = (req.query.replyLimit as unknown as number) || 3;
+
+      const parent = await Comment.findById(req.params.id).populate('post', 'status');
+      const postStatus = (parent?.post as unknown as { status?: string } | undefined)?.status;
+      if (!parent || postStatus !== 'published') {
+        next(ApiError.notFound('Comment'));
+        return;
+      }
+
+      const filter = { parentComment: parent._id, ...VISIBLE_COMMENT_FILTER };
+
+      if (cursor !== undefined) {
+        const docs = await Comment.find(applyCursor(filter, 'createdAt', cursor, 1))
+          .sort(cursorSort('createdAt', 1))
+          .limit(limit + 1)
+          .populate('author', COMMENT_AUTHOR_FIELDS)
+          .lean();
+        const { items, nextCursor } = toCursorPage(docs, limit, 'createdAt');
+        const tree = await attachReplies(items, depth, replyLimit);
+
+        res.json({
+          comments: await attachReactions(tree, 'comment', await findViewerId(req.user?.oid)),
+          parentCommentId: parent._id,
+          nextCursor,
+          limit,
+        });
+        return;
+      }
+
+      const [replies, total] = await Promise.all([
+        Comment.find(filter)
+          .sort(cursorSort('createdAt', 1))
+          .skip(skip)
+          .limit(limit)
+          .populate('author', COMMENT_AUTHOR_FIELDS)
+          .lean(),
+        Comment.countDocuments(filter),
+      ]);
+
+      const tree = await attachReplies(replies, depth, replyLimit);
+
+      res.json({
+        comments: await attachReactions(tree, 'comment', await findViewerId(req.user?.oid)),
+        parentCommentId: parent._id,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/posts/:slug/comments/stream
+ * Server-Sent Events: `comment` for each new comment or reply on a published post
+ * On reconnect, comments created after Last-Event-ID are sent first
+ */
+router.get(
+  '/posts/:slug/comments/stream',
+  [param('slug').isString().trim()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const post = await Post.findOne({ slug: req.params.slug, status: 'published' }).select('_id');
+      if (!post) {
+        next(ApiError.notFound('Post'));
+        return;
+      }
+
+      const stream = openEventStream(res);
+      stream.onClose(subscribe(postChannel(post._id), (event) => stream.send(event)));
+
+      const lastEventId = req.get('Last-Event-ID');
+      if (lastEventId && Types.ObjectId.isValid(lastEventId)) {
+        Comment.find({
+          post: post._id,
+          _id: { $gt: new Types.ObjectId(lastEventId) },
+          ...VISIBLE_COMMENT_FILTER,
+        })
+          .sort({ _id: 1 })
+          .limit(STREAM_REPLAY_LIMIT)
+          .populate('author', COMMENT_AUTHOR_FIELDS)
+          .lean()
+          .then((missed) => missed.forEach((comment) => stream.send(commentEvent(comment))))
+          .catch((err) => {
+            logger.error('Failed to replay comments:', err);
+            res.end();
+          });
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * POST /api/posts/:slug/comments
  * Add a comment to a post (authenticated)
@@ -98,39 +278,51 @@ router.post(
         return;
       }
 
-      // Find or create user
-      let user = await User.findOne({ oid: req.user!.oid });
-      if (!user) {
-        user = await User.create({
-          oid: req.user!.oid,
-          email: req.user!.email,
-          displayName: req.user!.name,
-          username: req.user!.email.split('@')[0].toLowerCase().replace(/[^a-z0-9_-]/g, ''),
-        });
-      }
+      const user = await provisionUser(req.user!);
 
       // Validate parent comment if provided
+      let parentAuthor: Types.ObjectId | undefined;
       if (req.body.parentCommentId) {
         const parentComment = await Comment.findOne({
           _id: req.body.parentCommentId,
           post: post._id,
-          isDeleted: false,
+          ...VISIBLE_COMMENT_FILTER,
         });
         if (!parentComment) {
           next(ApiError.notFound('Parent comment'));
           return;
         }
+        parentAuthor = parentComment.author;
       }
 
-        const comment = await Comment.create({
-          post: post._id,
-          author: user._id,
-          content: sanitizeHtml(req.body.content),
-          parentComment: req.body.parentCommentId || null,
-        });
+      const comment = await runInTransaction(async (session) => {
+        const [created] = await Comment.create(
+          [
+            {
+              post: post._id,
+              author: user._id,
+              content: sanitizeHtml(req.body.content),
+              parentComment: req.body.parentCommentId || null,
+            },
+          ],
+          { session }
+        );
+        await publishEvent(
+          'comment.created',
+          {
+            commentId: created!._id,
+            postId: post._id,
+            authorId: user._id,
+            postAuthorId: post.author,
+            parentAuthorId: parentAuthor,
+          },
+          { session }
+        );
+        return created!;
+      });
 
       const populatedComment = await Comment.findById(comment._id)
-        .populate('author', 'displayName username avatarUrl')
+        .populate('author', COMMENT_AUTHOR_FIELDS)
         .lean();
 
       logger.info('Comment created:', { commentId: comment._id, postId: post._id });
@@ -172,10 +364,13 @@ router.put(
 
       comment.content = sanitizeHtml(req.body.content);
       comment.isEdited = true;
-      await comment.save();
+      await runInTransaction(async (session) => {
+        await comment.save({ session });
+        await publishEvent('comment.updated', { commentId: comment._id }, { session });
+      });
 
       const updatedComment = await Comment.findById(comment._id)
-        .populate('author', 'displayName username avatarUrl')
+        .populate('author', COMMENT_AUTHOR_FIELDS)
         .lean();
 
       logger.info('Comment updated:', { commentId: comment._id });
@@ -215,7 +410,14 @@ router.delete(
       // Soft delete
       comment.isDeleted = true;
       comment.content = '[deleted]';
-      await comment.save();
+      await runInTransaction(async (session) => {
+        await comment.save({ session });
+        await publishEvent(
+          'comment.deleted',
+          { commentId: comment._id, postId: comment.post },
+          { session }
+        );
+      });
 
       logger.info('Comment deleted:', { commentId: comment._id });
 
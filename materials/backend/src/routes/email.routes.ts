@@ -0,0 +1,49 @@
+/**
+ * Email Routes
+ * One-click unsubscribe from notification emails
+ * Reference: /design/BackendApplicationDesign.md
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { query, validationResult } from 'express-validator';
+import { ApiError } from '../middleware/error.middleware';
+import { unsubscribe } from '../services/email.service';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+/**
+ * Validation error handler
+ */
+function handleValidation(req: Request, _res: Response, next: NextFunction): void {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    next(ApiError.badRequest('Validation failed', { errors: errors.array() }));
+    return;
+  }
+  next();
+}
+
+/**
+ * POST /api/email/unsubscribe?token=
+ * Turn off the email category in a signed unsubscribe token (no sign-in needed)
+ * Target of the List-Unsubscribe header (RFC 8058) and of the /unsubscribe page.
+ */
+router.post(
+  '/unsubscribe',
+  [query('token').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await unsubscribe(req.query.token as string);
+
+      logger.info('Unsubscribed from emails:', { category: result.category });
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
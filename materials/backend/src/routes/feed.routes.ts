@@ -0,0 +1,72 @@
+/**
+ * Feed Routes
+ * Personalized listing of posts from followed authors
+ * Reference: /design/BackendApplicationDesign.md
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { query, validationResult } from 'express-validator';
+import { authenticate } from '../middleware/auth.middleware';
+import { ApiError } from '../middleware/error.middleware';
+import { Post } from '../models';
+import { getFolloweeIds } from '../services/follows.service';
+import { attachReactions } from '../services/reactions.service';
+import { findViewerId } from '../services/users.service';
+import { applyCursor, cursorSort, isCursor, toCursorPage } from '../utils/cursor';
+
+const router = Router();
+
+/**
+ * Validation error handler
+ */
+function handleValidation(req: Request, _res: Response, next: NextFunction): void {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    next(ApiError.badRequest('Validation failed', { errors: errors.array() }));
+    return;
+  }
+  next();
+}
+
+/**
+ * GET /api/feed
+ * Published posts by authors the current user follows, newest first
+ * Keyset pagination on (publishedAt, _id), same cursors as GET /api/posts?cursor=
+ */
+router.get(
+  '/',
+  authenticate,
+  [
+    query('cursor').optional().isString().custom(isCursor),
+    query('limit').optional().isInt({ min: 1, max: 50 }).toInt(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const limit = (req.query.limit as unknown as number) || 10;
+      const cursor = (req.query.cursor as string | undefined) ?? '';
+
+      const userId = await findViewerId(req.user!.oid);
+      const followeeIds = userId ? await getFolloweeIds(userId) : [];
+      if (followeeIds.length === 0) {
+        res.json({ posts: [], nextCursor: null, limit });
+        return;
+      }
+
+      const filter = { status: 'published', author: { $in: followeeIds } };
+      const docs = await Post.find(applyCursor(filter, 'publishedAt', cursor, -1))
+        .select('-contentHtml')
+        .sort(cursorSort('publishedAt', -1))
+        .limit(limit + 1)
+        .populate('author', 'displayName username avatarUrl')
+        .lean();
+      const { items, nextCursor } = toCursorPage(docs, limit, 'publishedAt');
+
+      res.json({ posts: await attachReactions(items, 'post', userId), nextCursor, limit });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
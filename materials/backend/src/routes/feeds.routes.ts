@@ -0,0 +1,221 @@
+/**
+ * Feed Routes
+ * RSS 2.0 and Atom syndication of published posts (site-wide, per author, per tag)
+ * Reference: /design/BackendApplicationDesign.md
+ */
+
+import { createHash } from 'crypto';
+import { Router, Request, Response, NextFunction } from 'express';
+import { param, validationResult } from 'express-validator';
+import { config } from '../config/environment';
+import { ApiError } from '../middleware/error.middleware';
+import { Post, User } from '../models';
+import { buildPublishedPostsFilter, PublishedPostsOptions } from '../services/posts.service';
+import { resolveUsernameRedirect } from '../services/users.service';
+import { absolutizeUrls, FeedItem, FeedMeta, renderAtom, renderRss } from '../utils/feed';
+import { renderMarkdown } from '../utils/markdown';
+
+const router = Router();
+
+const FEED_SIZE = 20;
+const SITE_TITLE = 'BlogApp';
+
+type FeedFormat = 'rss' | 'atom';
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+};
+
+/**
+ * Validation error handler
+ */
+function handleValidation(req: Request, _res: Response, next: NextFunction): void {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    next(ApiError.badRequest('Validation failed', { errors: errors.array() }));
+    return;
+  }
+  next();
+}
+
+/**
+ * Each feed is served as RSS at feed.xml and as Atom at atom.xml
+ */
+function formatOf(req: Request): FeedFormat {
+  return req.path.endsWith('/atom.xml') ? 'atom' : 'rss';
+}
+
+/**
+ * Public base URL for links in the feed
+ * SITE_URL is preferred: behind Application Gateway the request protocol is http
+ */
+function getSiteUrl(req: Request): string {
+  return config.siteUrl ?? `${req.protocol}://${req.get('host')}`;
+}
+
+/**
+ * Load the posts for a feed and send it, answering conditional requests with 304
+ */
+async function sendFeed(
+  req: Request,
+  res: Response,
+  format: FeedFormat,
+  options: PublishedPostsOptions,
+  meta: { title: string; description: string; alternatePath: string }
+): Promise<void> {
+  const filter = await buildPublishedPostsFilter(options);
+  if (!filter) {
+    throw ApiError.notFound('User');
+  }
+
+  const posts = await Post.find(filter)
+    .select('title slug excerpt content contentHtml tags author publishedAt updatedAt')
+    .sort({ publishedAt: -1 })
+    .limit(FEED_SIZE)
+    .populate('author', 'displayName')
+    .lean();
+
+  // Validators: the newest change to any post in the feed, and which posts are in it
+  const lastModified = posts.reduce(
+    (latest, post) => (post.updatedAt > latest ? post.updatedAt : latest),
+    new Date(0)
+  );
+  const siteUrl = getSiteUrl(req);
+  const etag = createHash('sha1')
+    .update(`${format}|${siteUrl}|`)
+    .update(posts.map((post) => `${post._id}:${post.updatedAt.getTime()}`).join(','))
+    .digest('base64url');
+
+  res.set({
+    'Content-Type': CONTENT_TYPES[format],
+    'Cache-Control': 'public, max-age=300',
+    ETag: `W/"${etag}"`,
+    // HTTP dates have second precision
+    'Last-Modified': new Date(Math.floor(lastModified.getTime() / 1000) * 1000).toUTCString(),
+  });
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  const items: FeedItem[] = posts.map((post) => ({
+    title: post.title,
+    link: `${siteUrl}/posts/${post.slug}`,
+    summary: post.excerpt,
+    contentHtml: absolutizeUrls(post.contentHtml ?? renderMarkdown(post.content), siteUrl),
+    authorName: (post.author as unknown as { displayName?: string } | null)?.displayName,
+    categories: post.tags,
+    publishedAt: post.publishedAt ?? post.updatedAt,
+    updatedAt: post.updatedAt,
+  }));
+
+  const feedMeta: FeedMeta = {
+    title: meta.title,
+    description: meta.description,
+    selfUrl: `${siteUrl}${req.originalUrl.split('?')[0]}`,
+    alternateUrl: `${siteUrl}${meta.alternatePath}`,
+    updatedAt: posts.length > 0 ? lastModified : new Date(),
+  };
+
+  res.send(format === 'rss' ? renderRss(feedMeta, items) : renderAtom(feedMeta, items));
+}
+
+/**
+ * GET /feed.xml, GET /atom.xml
+ * Latest published posts site-wide
+ */
+router.get(['/feed.xml', '/atom.xml'], async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await sendFeed(
+      req,
+      res,
+      formatOf(req),
+      {},
+      {
+        title: SITE_TITLE,
+        description: `Latest posts on ${SITE_TITLE}`,
+        alternatePath: '/',
+      }
+    );
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /users/:username/feed.xml, GET /users/:username/atom.xml
+ * Latest published posts by one author
+ */
+router.get(
+  ['/users/:username/feed.xml', '/users/:username/atom.xml'],
+  [param('username').isString().trim()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await User.findOne({ username: req.params.username })
+        .select('displayName')
+        .lean();
+
+      if (!user) {
+        // Previous username: point subscribers at the current feed (temporarily, as
+        // the old name can become current again)
+        const current = await resolveUsernameRedirect(req.params.username);
+        if (current) {
+          const file = formatOf(req) === 'atom' ? 'atom.xml' : 'feed.xml';
+          res.set('Cache-Control', 'no-store');
+          res.redirect(307, `/users/${encodeURIComponent(current)}/${file}`);
+          return;
+        }
+        next(ApiError.notFound('User'));
+        return;
+      }
+
+      await sendFeed(
+        req,
+        res,
+        formatOf(req),
+        { author: req.params.username },
+        {
+          title: `${user.displayName} - ${SITE_TITLE}`,
+          description: `Latest posts by ${user.displayName}`,
+          alternatePath: `/users/${encodeURIComponent(req.params.username)}`,
+        }
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /tags/:tag/feed.xml, GET /tags/:tag/atom.xml
+ * Latest published posts with a tag
+ */
+router.get(
+  ['/tags/:tag/feed.xml', '/tags/:tag/atom.xml'],
+  [param('tag').isString().trim().isLength({ min: 1, max: 50 })],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const tag = req.params.tag.toLowerCase();
+
+      await sendFeed(
+        req,
+        res,
+        formatOf(req),
+        { tag },
+        {
+          title: `#${tag} - ${SITE_TITLE}`,
+          description: `Latest posts tagged "${tag}"`,
+          alternatePath: `/tags/${encodeURIComponent(tag)}`,
+        }
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -8,15 +8,41 @@ import healthRoutes from './health.routes';
 import postsRoutes from './posts.routes';
 import usersRoutes from './users.routes';
 import commentsRoutes from './comments.routes';
+import revisionsRoutes from './revisions.routes';
+import adminRoutes from './admin.routes';
+import mediaRoutes from './media.routes';
+import feedsRoutes from './feeds.routes';
+import tagsRoutes from './tags.routes';
+import reactionsRoutes from './reactions.routes';
+import statsRoutes from './stats.routes';
+import bookmarksRoutes from './bookmarks.routes';
+import feedRoutes from './feed.routes';
+import notificationsRoutes from './notifications.routes';
+import emailRoutes from './email.routes';
+import webhooksRoutes from './webhooks.routes';
 
 const router = Router();
 
 // Health check routes (no /api prefix)
 router.use('/', healthRoutes);
 
+// Syndication feeds (no /api prefix: /feed.xml, /atom.xml, /users/:username/feed.xml, ...)
+router.use('/', feedsRoutes);
+
 // API routes
 router.use('/api/posts', postsRoutes);
+router.use('/api/posts', revisionsRoutes); // /api/posts/:slug/revisions
+router.use('/api/posts', statsRoutes); // /api/posts/:slug/stats
 router.use('/api/users', usersRoutes);
 router.use('/api', commentsRoutes); // Comments have mixed paths
+router.use('/api', reactionsRoutes); // /api/posts/:slug/reactions, /api/comments/:id/reactions
+router.use('/api/admin/webhooks', webhooksRoutes); // Before adminRoutes (both require admin)
+router.use('/api/admin', adminRoutes);
+router.use('/api/media', mediaRoutes);
+router.use('/api/tags', tagsRoutes);
+router.use('/api/bookmarks', bookmarksRoutes);
+router.use('/api/feed', feedRoutes);
+router.use('/api/notifications', notificationsRoutes);
+router.use('/api/email', emailRoutes);
 
 export default router;
@@ -0,0 +1,166 @@
+/**
+ * Media Routes
+ * Image upload and per-user media library
+ * Reference: /design/BackendApplicationDesign.md
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import multer from 'multer';
+import { config } from '../config/environment';
+import { authenticate } from '../middleware/auth.middleware';
+import { ApiError } from '../middleware/error.middleware';
+import { Media, User } from '../models';
+import { createMedia, deleteMedia } from '../services/media.service';
+import { provisionUser } from '../services/provisioning.service';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Keep uploads in memory: images are validated and re-encoded before being stored
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: config.media.maxFileSizeBytes, files: 1 },
+});
+
+/**
+ * Validation error handler
+ */
+function handleValidation(req: Request, _res: Response, next: NextFunction): void {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    next(ApiError.badRequest('Validation failed', { errors: errors.array() }));
+    return;
+  }
+  next();
+}
+
+/**
+ * Parse a single "file" field, translating multer errors into API errors
+ */
+function handleUpload(req: Request, res: Response, next: NextFunction): void {
+  upload.single('file')(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        const maxMb = Math.round(config.media.maxFileSizeBytes / 1024 / 1024);
+        next(new ApiError(413, `File must be ${maxMb} MB or smaller`, 'PAYLOAD_TOO_LARGE'));
+        return;
+      }
+      next(ApiError.badRequest(err.message));
+      return;
+    }
+    next(err);
+  });
+}
+
+/**
+ * POST /api/media
+ * Upload an image (multipart/form-data, field "file")
+ */
+router.post(
+  '/',
+  authenticate,
+  handleUpload,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.file) {
+        next(ApiError.badRequest('No file uploaded'));
+        return;
+      }
+
+      const user = await provisionUser(req.user!);
+
+      const media = await createMedia(req.file, user._id);
+
+      logger.info('Media uploaded:', { mediaId: media._id, owner: user._id, size: media.size });
+
+      res.status(201).json(media.toObject());
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/media
+ * List current user's media library
+ */
+router.get(
+  '/',
+  authenticate,
+  [
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 24;
+      const skip = (page - 1) * limit;
+
+      const user = await User.findOne({ oid: req.user!.oid });
+      if (!user) {
+        res.json({ media: [], total: 0, page, limit, totalPages: 0 });
+        return;
+      }
+
+      const [media, total] = await Promise.all([
+        Media.find({ owner: user._id }).sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
+        Media.countDocuments({ owner: user._id }),
+      ]);
+
+      res.json({
+        media,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/media/:id
+ * Delete an unused media item (owner only)
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  [param('id').isMongoId()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const media = await Media.findById(req.params.id).populate('owner', 'oid');
+
+      if (!media) {
+        next(ApiError.notFound('Media'));
+        return;
+      }
+
+      const ownerOid = (media.owner as unknown as { oid: string }).oid;
+      if (ownerOid !== req.user!.oid) {
+        next(ApiError.forbidden('You can only delete your own media'));
+        return;
+      }
+
+      if (media.usedBy.length > 0) {
+        next(ApiError.conflict('Media is used by one or more posts'));
+        return;
+      }
+
+      await deleteMedia(media);
+
+      logger.info('Media deleted:', { mediaId: media._id });
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,181 @@
+/**
+ * Notifications Routes
+ * Current user's in-app notifications and their read state
+ * Reference: /design/BackendApplicationDesign.md
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { Types } from 'mongoose';
+import { authenticate } from '../middleware/auth.middleware';
+import { ApiError } from '../middleware/error.middleware';
+import { Notification } from '../models';
+import { getUnreadCount, markRead, presentNotifications } from '../services/notifications.service';
+import { provisionUser } from '../services/provisioning.service';
+import { notificationEvent, subscribe, userChannel } from '../services/realtime.service';
+import { findViewerId } from '../services/users.service';
+import { applyCursor, cursorSort, isCursor, toCursorPage } from '../utils/cursor';
+import { logger } from '../utils/logger';
+import { openEventStream } from '../utils/sse';
+
+const router = Router();
+
+// Most notifications sent to a reconnecting stream
+const STREAM_REPLAY_LIMIT = 50;
+
+/**
+ * Validation error handler
+ */
+function handleValidation(req: Request, _res: Response, next: NextFunction): void {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    next(ApiError.badRequest('Validation failed', { errors: errors.array() }));
+    return;
+  }
+  next();
+}
+
+/**
+ * GET /api/notifications
+ * Current user's notifications, newest first, with the unread count
+ * Keyset pagination on (createdAt, _id); `unread=true` lists unread ones only
+ */
+router.get(
+  '/',
+  authenticate,
+  [
+    query('cursor').optional().isString().custom(isCursor),
+    query('limit').optional().isInt({ min: 1, max: 50 }).toInt(),
+    query('unread').optional().isBoolean().toBoolean(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const limit = (req.query.limit as unknown as number) || 20;
+      const cursor = (req.query.cursor as string | undefined) ?? '';
+
+      const userId = await findViewerId(req.user!.oid);
+      if (!userId) {
+        res.json({ notifications: [], nextCursor: null, limit, unreadCount: 0 });
+        return;
+      }
+
+      const filter = {
+        recipient: userId,
+        ...((req.query.unread as unknown as boolean) ? { readAt: null } : {}),
+      };
+      const [docs, unreadCount] = await Promise.all([
+        Notification.find(applyCursor(filter, 'createdAt', cursor, -1))
+          .sort(cursorSort('createdAt', -1))
+          .limit(limit + 1)
+          .lean(),
+        getUnreadCount(userId),
+      ]);
+      const { items, nextCursor } = toCursorPage(docs, limit, 'createdAt');
+
+      const notifications = await presentNotifications(items);
+
+      res.json({ notifications, nextCursor, limit, unreadCount });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/notifications/unread-count
+ * Number of unread notifications (cheap enough to poll)
+ */
+router.get(
+  '/unread-count',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = await findViewerId(req.user!.oid);
+      res.json({ unreadCount: userId ? await getUnreadCount(userId) : 0 });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/notifications/stream
+ * Server-Sent Events for the current user: `unread` with the count on connect and
+ * whenever notifications are read, `notification` for each new one
+ * The stream ends when the access token expires; the client reconnects with a new one.
+ * On reconnect, notifications created after Last-Event-ID are sent first.
+ */
+router.get('/stream', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await provisionUser(req.user!);
+    const lastEventId = req.get('Last-Event-ID');
+
+    const stream = openEventStream(res, req.user!.exp ? req.user!.exp * 1000 : undefined);
+    stream.onClose(subscribe(userChannel(user._id), (event) => stream.send(event)));
+
+    const replay = async (): Promise<void> => {
+      const unreadCount = await getUnreadCount(user._id);
+      stream.send({ event: 'unread', data: { unreadCount } });
+
+      if (!lastEventId || !Types.ObjectId.isValid(lastEventId)) return;
+      const missed = await Notification.find({
+        recipient: user._id,
+        _id: { $gt: new Types.ObjectId(lastEventId) },
+      })
+        .sort({ _id: 1 })
+        .limit(STREAM_REPLAY_LIMIT)
+        .lean();
+      for (const notification of missed) {
+        stream.send(await notificationEvent(notification, unreadCount));
+      }
+    };
+    replay().catch((err) => {
+      logger.error('Failed to replay notifications:', err);
+      res.end();
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/notifications/read-all
+ * Mark all of the current user's notifications as read
+ */
+router.put('/read-all', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = await findViewerId(req.user!.oid);
+    res.json({ unreadCount: userId ? await markRead(userId) : 0 });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/notifications/:id/read
+ * Mark one notification as read (idempotent)
+ */
+router.put(
+  '/:id/read',
+  authenticate,
+  [param('id').isMongoId()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = await findViewerId(req.user!.oid);
+      const exists =
+        userId && (await Notification.exists({ _id: req.params.id, recipient: userId }));
+      if (!userId || !exists) {
+        next(ApiError.notFound('Notification'));
+        return;
+      }
+
+      res.json({ unreadCount: await markRead(userId, req.params.id) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
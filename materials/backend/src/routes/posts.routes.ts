@@ -6,11 +6,24 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
+import { Types } from 'mongoose';
 import { authenticate, optionalAuthenticate } from '../middleware/auth.middleware';
 import { ApiError } from '../middleware/error.middleware';
 import { Post, generateSlug, User } from '../models';
+import { deleteBookmarks, isBookmarked } from '../services/bookmarks.service';
+import { publishEvent, runInTransaction } from '../services/events.service';
+import { isImageUrl, syncMediaUsage } from '../services/media.service';
+import { buildPublishedPostsFilter, deletePostDependents } from '../services/posts.service';
+import { provisionUser } from '../services/provisioning.service';
+import { attachReactions } from '../services/reactions.service';
+import { ensureBaselineRevision, recordRevision } from '../services/revisions.service';
+import { findViewerId } from '../services/users.service';
+import { recordView } from '../services/views.service';
+import { applyCursor, cursorSort, isCursor, toCursorPage } from '../utils/cursor';
 import { logger } from '../utils/logger';
-import { sanitizeHtml, sanitizePlain, sanitizeTagValue } from '../utils/sanitize';
+import { renderMarkdown } from '../utils/markdown';
+import { sanitizePlain, sanitizeTagValue } from '../utils/sanitize';
+import { buildSnippet, extractSearchTerms, highlightTerms } from '../utils/search';
 
 const router = Router();
 
@@ -26,15 +39,28 @@ function handleValidation(req: Request, _res: Response, next: NextFunction): voi
   next();
 }
 
+/**
+ * Validator for publishAt: scheduled posts must go live in the future
+ */
+function isFutureDate(value: string): boolean {
+  if (new Date(value).getTime() <= Date.now()) {
+    throw new Error('publishAt must be in the future');
+  }
+  return true;
+}
+
 /**
  * GET /api/posts
- * List published posts with pagination
+ * List published posts with pagination and reaction summaries
+ * `cursor` (empty for the first page) switches to keyset pagination on (publishedAt, _id):
+ * no total, and no duplicates when posts are published mid-scroll
  */
 router.get(
   '/',
   optionalAuthenticate,
   [
     query('page').optional().isInt({ min: 1 }).toInt(),
+    query('cursor').optional().isString().custom(isCursor),
     query('limit').optional().isInt({ min: 1, max: 50 }).toInt(),
     query('tag').optional().isString().trim(),
     query('author').optional().isString().trim(),
@@ -42,15 +68,94 @@ router.get(
   handleValidation,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 10;
+      const skip = (page - 1) * limit;
+      const cursor = req.query.cursor as string | undefined;
+
+      const filter = await buildPublishedPostsFilter({
+        tag: req.query.tag as string | undefined,
+        author: req.query.author as string | undefined,
+      });
+      if (!filter) {
+        // No posts for non-existent author
+        res.json(
+          cursor !== undefined
+            ? { posts: [], nextCursor: null, limit }
+            : { posts: [], total: 0, page, limit }
+        );
+        return;
+      }
+
+      if (cursor !== undefined) {
+        const docs = await Post.find(applyCursor(filter, 'publishedAt', cursor, -1))
+          .select('-contentHtml')
+          .sort(cursorSort('publishedAt', -1))
+          .limit(limit + 1)
+          .populate('author', 'displayName username avatarUrl')
+          .lean();
+        const { items, nextCursor } = toCursorPage(docs, limit, 'publishedAt');
+        const viewerId = await findViewerId(req.user?.oid);
+
+        res.json({ posts: await attachReactions(items, 'post', viewerId), nextCursor, limit });
+        return;
+      }
+
+      const [posts, total] = await Promise.all([
+        Post.find(filter)
+          .select('-contentHtml')
+          .sort(cursorSort('publishedAt', -1))
+          .skip(skip)
+          .limit(limit)
+          .populate('author', 'displayName username avatarUrl')
+          .lean(),
+        Post.countDocuments(filter),
+      ]);
+      const viewerId = await findViewerId(req.user?.oid);
+
+      res.json({
+        posts: await attachReactions(posts, 'post', viewerId),
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/posts/search
+ * Relevance-ranked full-text search over published posts
+ * Uses the text index on title, content and tags
+ */
+router.get(
+  '/search',
+  optionalAuthenticate,
+  [
+    query('q').isString().trim().isLength({ min: 1, max: 200 }),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 50 }).toInt(),
+    query('tag').optional().isString().trim(),
+    query('author').optional().isString().trim(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const q = req.query.q as string;
       const page = (req.query.page as unknown as number) || 1;
       const limit = (req.query.limit as unknown as number) || 10;
       const skip = (page - 1) * limit;
       const tag = req.query.tag as string | undefined;
       const authorUsername = req.query.author as string | undefined;
 
-      // Build query
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const filter: Record<string, any> = { status: 'published' };
+      const filter: Record<string, any> = {
+        $text: { $search: q },
+        status: 'published',
+      };
 
       if (tag) {
         filter.tags = tag.toLowerCase();
@@ -61,15 +166,14 @@ router.get(
         if (author) {
           filter.author = author._id;
         } else {
-          // No posts for non-existent author
-          res.json({ posts: [], total: 0, page, limit });
+          res.json({ posts: [], total: 0, page, limit, totalPages: 0, query: q });
           return;
         }
       }
 
       const [posts, total] = await Promise.all([
-        Post.find(filter)
-          .sort({ publishedAt: -1 })
+        Post.find(filter, { score: { $meta: 'textScore' } })
+          .sort({ score: { $meta: 'textScore' }, publishedAt: -1 })
           .skip(skip)
           .limit(limit)
           .populate('author', 'displayName username avatarUrl')
@@ -77,12 +181,23 @@ router.get(
         Post.countDocuments(filter),
       ]);
 
+      // Replace full content with highlighted snippets to keep responses small
+      const terms = extractSearchTerms(q);
+      const results = posts.map(({ content, contentHtml, ...post }) => ({
+        ...post,
+        highlights: {
+          title: highlightTerms(post.title, terms),
+          snippet: buildSnippet(contentHtml ?? content, terms),
+        },
+      }));
+
       res.json({
-        posts,
+        posts: results,
         total,
         page,
         limit,
         totalPages: Math.ceil(total / limit),
+        query: q,
       });
     } catch (error) {
       next(error);
@@ -92,7 +207,8 @@ router.get(
 
 /**
  * GET /api/posts/my
- * List current user's posts (including drafts)
+ * List current user's posts (including drafts), most recently updated first
+ * `cursor` switches to keyset pagination on (createdAt, _id), newest first
  * Only accessible to authenticated users
  */
 router.get(
@@ -100,8 +216,9 @@ router.get(
   authenticate,
   [
     query('page').optional().isInt({ min: 1 }).toInt(),
+    query('cursor').optional().isString().custom(isCursor),
     query('limit').optional().isInt({ min: 1, max: 50 }).toInt(),
-    query('status').optional().isIn(['draft', 'published', 'all']),
+    query('status').optional().isIn(['draft', 'scheduled', 'published', 'all']),
   ],
   handleValidation,
   async (req: Request, res: Response, next: NextFunction) => {
@@ -110,11 +227,16 @@ router.get(
       const limit = (req.query.limit as unknown as number) || 10;
       const skip = (page - 1) * limit;
       const statusFilter = req.query.status as string | undefined;
+      const cursor = req.query.cursor as string | undefined;
 
       // Find user by oid
       const user = await User.findOne({ oid: req.user!.oid });
       if (!user) {
-        res.json({ posts: [], total: 0, page, limit, totalPages: 0 });
+        res.json(
+          cursor !== undefined
+            ? { posts: [], nextCursor: null, limit }
+            : { posts: [], total: 0, page, limit, totalPages: 0 }
+        );
         return;
       }
 
@@ -126,9 +248,24 @@ router.get(
         filter.status = statusFilter;
       }
 
+      if (cursor !== undefined) {
+        // updatedAt changes on every edit, so cursors use the immutable createdAt
+        const docs = await Post.find(applyCursor(filter, 'createdAt', cursor, -1))
+          .select('-contentHtml')
+          .sort(cursorSort('createdAt', -1))
+          .limit(limit + 1)
+          .populate('author', 'displayName username avatarUrl')
+          .lean();
+        const { items, nextCursor } = toCursorPage(docs, limit, 'createdAt');
+
+        res.json({ posts: items, nextCursor, limit });
+        return;
+      }
+
       const [posts, total] = await Promise.all([
         Post.find(filter)
-          .sort({ updatedAt: -1 })
+          .select('-contentHtml')
+          .sort({ updatedAt: -1, _id: -1 })
           .skip(skip)
           .limit(limit)
           .populate('author', 'displayName username avatarUrl')
@@ -151,7 +288,8 @@ router.get(
 
 /**
  * GET /api/posts/:slug
- * Get single post by slug
+ * Get single post by slug, with reaction counts (and the caller's own reactions)
+ * `bookmarked` is included for signed-in readers
  */
 router.get(
   '/:slug',
@@ -178,12 +316,28 @@ router.get(
         }
       }
 
-      // Increment view count (fire and forget)
-      Post.updateOne({ _id: post._id }, { $inc: { viewCount: 1 } }).catch((err) => {
-        logger.error('Failed to increment view count:', err);
-      });
+      // Posts saved before Markdown rendering was introduced have no stored HTML
+      if (post.contentHtml === undefined) {
+        post.contentHtml = renderMarkdown(post.content);
+      }
+
+      // Count the view (fire and forget); drafts previewed by their author are never counted
+      if (post.status === 'published') {
+        recordView(
+          { _id: post._id, authorOid: (post.author as unknown as { oid?: string } | null)?.oid },
+          { oid: req.user?.oid, ip: req.ip, userAgent: req.get('user-agent') }
+        ).catch((err) => {
+          logger.error('Failed to record view:', err);
+        });
+      }
+
+      const viewerId = await findViewerId(req.user?.oid);
+      const [withReactions] = await attachReactions([post], 'post', viewerId);
 
-      res.json(post);
+      res.json({
+        ...withReactions,
+        ...(viewerId && { bookmarked: await isBookmarked(viewerId, post._id) }),
+      });
     } catch (error) {
       next(error);
     }
@@ -203,23 +357,23 @@ router.post(
     body('excerpt').optional().isString().trim().isLength({ max: 500 }),
     body('tags').optional().isArray(),
     body('tags.*').optional().isString().trim(),
-    body('status').optional().isIn(['draft', 'published']),
-    body('featuredImageUrl').optional().isURL(),
+    body('status').optional().isIn(['draft', 'scheduled', 'published']),
+    body('publishAt').optional().isISO8601().bail().custom(isFutureDate).toDate(),
+    body('featuredImageUrl').optional().custom(isImageUrl),
   ],
   handleValidation,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      // Find or create user from token
-      let user = await User.findOne({ oid: req.user!.oid });
+      const user = await provisionUser(req.user!);
 
-      if (!user) {
-        // First-time user - create profile
-        user = await User.create({
-          oid: req.user!.oid,
-          email: req.user!.email,
-          displayName: req.user!.name,
-          username: req.user!.email.split('@')[0].toLowerCase().replace(/[^a-z0-9_-]/g, ''),
-        });
+      const scheduled = req.body.status === 'scheduled';
+      if (scheduled && !req.body.publishAt) {
+        next(ApiError.badRequest('publishAt is required for scheduled posts'));
+        return;
+      }
+      if (!scheduled && req.body.publishAt !== undefined) {
+        next(ApiError.badRequest('publishAt is only allowed on scheduled posts'));
+        return;
       }
 
       // Generate unique slug with username-aware collision handling
@@ -249,16 +403,30 @@ router.post(
       const postData = {
         title: sanitizePlain(req.body.title),
         slug,
-        content: sanitizeHtml(req.body.content),
+        content: req.body.content,
+        contentHtml: renderMarkdown(req.body.content),
         excerpt: sanitizePlain(req.body.excerpt),
         author: user._id,
         status: req.body.status ?? 'draft',
         tags: req.body.tags?.map((t: string) => sanitizeTagValue(t)) ?? [],
         featuredImageUrl: req.body.featuredImageUrl,
         publishedAt: req.body.status === 'published' ? new Date() : undefined,
+        publishAt: scheduled ? req.body.publishAt : undefined,
       };
 
-      const post = await Post.create(postData);
+      const post = await runInTransaction(async (session) => {
+        const created = (await Post.create([postData], { session }))[0]!;
+        const event = { postId: created._id, authorId: user._id };
+        await publishEvent('post.created', { ...event, status: created.status }, { session });
+        if (created.status === 'published') {
+          await publishEvent('post.published', event, { session });
+        }
+        return created;
+      });
+      await recordRevision(post, user._id).catch((err) => {
+        logger.error('Failed to record post revision:', err);
+      });
+      await syncMediaUsage(post._id, user._id, post.featuredImageUrl);
       const populatedPost = await Post.findById(post._id)
         .populate('author', 'displayName username avatarUrl')
         .lean();
@@ -285,8 +453,10 @@ router.put(
     body('content').optional().isString().isLength({ min: 1 }),
     body('excerpt').optional().isString().trim().isLength({ max: 500 }),
     body('tags').optional().isArray(),
-    body('status').optional().isIn(['draft', 'published', 'archived']),
-    body('featuredImageUrl').optional().isURL(),
+    body('status').optional().isIn(['draft', 'scheduled', 'published', 'archived']),
+    body('publishAt').optional().isISO8601().bail().custom(isFutureDate).toDate(),
+    // Empty string clears the featured image
+    body('featuredImageUrl').optional({ values: 'falsy' }).custom(isImageUrl),
   ],
   handleValidation,
   async (req: Request, res: Response, next: NextFunction) => {
@@ -305,9 +475,34 @@ router.put(
         return;
       }
 
+      // Force-archived by an admin: content can still be edited, the status cannot
+      if (post.moderatedAt && req.body.status !== undefined && req.body.status !== post.status) {
+        next(ApiError.forbidden('This post was archived by a moderator'));
+        return;
+      }
+
+      // A scheduled post needs a publish time: either supplied now or kept from before
+      const nextStatus = req.body.status ?? post.status;
+      if (req.body.publishAt !== undefined && nextStatus !== 'scheduled') {
+        next(ApiError.badRequest('publishAt is only allowed on scheduled posts'));
+        return;
+      }
+      if (nextStatus === 'scheduled' && !req.body.publishAt && post.status !== 'scheduled') {
+        next(ApiError.badRequest('publishAt is required for scheduled posts'));
+        return;
+      }
+
+      const editorId = (post.author as unknown as { _id: Types.ObjectId })._id;
+      await ensureBaselineRevision(post, editorId).catch((err) => {
+        logger.error('Failed to record baseline post revision:', err);
+      });
+
       // Update fields
       if (req.body.title) post.title = sanitizePlain(req.body.title);
-      if (req.body.content) post.content = sanitizeHtml(req.body.content);
+      if (req.body.content) {
+        post.content = req.body.content;
+        post.contentHtml = renderMarkdown(req.body.content);
+      }
       if (req.body.excerpt !== undefined) post.excerpt = sanitizePlain(req.body.excerpt);
       if (req.body.tags) post.tags = req.body.tags.map((t: string) => sanitizeTagValue(t));
       if (req.body.featuredImageUrl !== undefined) post.featuredImageUrl = req.body.featuredImageUrl;
@@ -317,8 +512,37 @@ router.put(
           post.publishedAt = new Date();
         }
       }
+      if (nextStatus === 'scheduled') {
+        if (req.body.publishAt) post.publishAt = req.body.publishAt;
+      } else {
+        post.publishAt = undefined;
+      }
+
+      const archived = req.body.status === 'archived' && post.isModified('status');
+      const published = req.body.status === 'published' && post.isModified('status');
+      await runInTransaction(async (session) => {
+        await post.save({ session });
+        await publishEvent('post.updated', { postId: post._id, status: post.status }, { session });
+        if (published) {
+          await publishEvent(
+            'post.published',
+            { postId: post._id, authorId: editorId },
+            { session }
+          );
+        }
+      });
+
+      // Archived posts leave every reading list
+      if (archived) {
+        await deleteBookmarks(post._id);
+      }
 
-      await post.save();
+      await recordRevision(post, editorId).catch((err) => {
+        logger.error('Failed to record post revision:', err);
+      });
+      if (req.body.featuredImageUrl !== undefined) {
+        await syncMediaUsage(post._id, editorId, post.featuredImageUrl);
+      }
 
       const updatedPost = await Post.findById(post._id)
         .populate('author', 'displayName username avatarUrl')
@@ -358,7 +582,16 @@ router.delete(
         return;
       }
 
-      await Post.deleteOne({ _id: post._id });
+      // The post and its event commit together; what belonged to it is removed after
+      await runInTransaction(async (session) => {
+        await Post.deleteOne({ _id: post._id }, { session });
+        await publishEvent(
+          'post.deleted',
+          { postId: post._id, slug: post.slug, title: post.title },
+          { session }
+        );
+      });
+      await deletePostDependents(post._id);
 
       logger.info('Post deleted:', { postId: post._id });
 
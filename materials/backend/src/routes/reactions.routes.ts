@@ -0,0 +1,120 @@
+/**
+ * Reactions Routes
+ * Toggle emoji reactions on posts and comments
+ * Reference: /design/BackendApplicationDesign.md
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { param, validationResult } from 'express-validator';
+import { Types } from 'mongoose';
+import { authenticate } from '../middleware/auth.middleware';
+import { ApiError } from '../middleware/error.middleware';
+import { Comment, Post, REACTION_TYPES, ReactionType } from '../models';
+import { VISIBLE_COMMENT_FILTER } from '../services/comments.service';
+import { publishEvent } from '../services/events.service';
+import { provisionUser } from '../services/provisioning.service';
+import { toggleReaction } from '../services/reactions.service';
+
+const router = Router();
+
+/**
+ * Validation error handler
+ */
+function handleValidation(req: Request, _res: Response, next: NextFunction): void {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    next(ApiError.badRequest('Validation failed', { errors: errors.array() }));
+    return;
+  }
+  next();
+}
+
+const reactionTypeValidator = param('type')
+  .isIn(REACTION_TYPES)
+  .withMessage(`Reaction type must be one of: ${REACTION_TYPES.join(', ')}`);
+
+/**
+ * POST /api/posts/:slug/reactions/:type
+ * Toggle the current user's reaction of this type on a published post
+ */
+router.post(
+  '/posts/:slug/reactions/:type',
+  authenticate,
+  [param('slug').isString().trim(), reactionTypeValidator],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const post = await Post.findOne({ slug: req.params.slug, status: 'published' }).select(
+        '_id author'
+      );
+      if (!post) {
+        next(ApiError.notFound('Post'));
+        return;
+      }
+
+      const user = await provisionUser(req.user!);
+
+      const type = req.params.type as ReactionType;
+      const result = await toggleReaction('post', post._id, user._id, type);
+
+      if (result.reacted) {
+        await publishEvent('reaction.created', {
+          targetType: 'post',
+          type,
+          actorId: user._id,
+          recipientId: post.author,
+          postId: post._id,
+        });
+      }
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/comments/:id/reactions/:type
+ * Toggle the current user's reaction of this type on a visible comment
+ */
+router.post(
+  '/comments/:id/reactions/:type',
+  authenticate,
+  [param('id').isMongoId(), reactionTypeValidator],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const comment = await Comment.findOne({ _id: req.params.id, ...VISIBLE_COMMENT_FILTER })
+        .select('post author')
+        .populate('post', 'status');
+      const postStatus = (comment?.post as unknown as { status?: string } | undefined)?.status;
+      if (!comment || postStatus !== 'published') {
+        next(ApiError.notFound('Comment'));
+        return;
+      }
+
+      const user = await provisionUser(req.user!);
+
+      const type = req.params.type as ReactionType;
+      const result = await toggleReaction('comment', comment._id, user._id, type);
+
+      if (result.reacted) {
+        await publishEvent('reaction.created', {
+          targetType: 'comment',
+          type,
+          actorId: user._id,
+          recipientId: comment.author,
+          postId: (comment.post as unknown as { _id: Types.ObjectId })._id,
+          commentId: comment._id,
+        });
+      }
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
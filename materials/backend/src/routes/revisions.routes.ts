@@ -0,0 +1,221 @@
+/**
+ * Post Revisions Routes
+ * Revision history, diffs and restore for posts (author only)
+ * Reference: /design/BackendApplicationDesign.md
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { Types } from 'mongoose';
+import { authenticate } from '../middleware/auth.middleware';
+import { ApiError } from '../middleware/error.middleware';
+import { IPost, Post, PostRevision } from '../models';
+import { publishEvent, runInTransaction } from '../services/events.service';
+import { diffRevisions, recordRevision } from '../services/revisions.service';
+import { logger } from '../utils/logger';
+import { renderMarkdown } from '../utils/markdown';
+
+const router = Router();
+
+/**
+ * Validation error handler
+ */
+function handleValidation(req: Request, _res: Response, next: NextFunction): void {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    next(ApiError.badRequest('Validation failed', { errors: errors.array() }));
+    return;
+  }
+  next();
+}
+
+/**
+ * Load a post and check the current user is its author
+ * Revision history can contain unpublished drafts, so it is never public
+ */
+async function findOwnedPost(slug: string, oid: string): Promise<IPost> {
+  const post = await Post.findOne({ slug }).populate('author', 'oid');
+
+  if (!post) {
+    throw ApiError.notFound('Post');
+  }
+
+  const authorOid = (post.author as unknown as { oid: string }).oid;
+  if (authorOid !== oid) {
+    throw ApiError.forbidden('You can only view the history of your own posts');
+  }
+
+  return post;
+}
+
+/**
+ * GET /api/posts/:slug/revisions
+ * List revisions, newest first (without content)
+ */
+router.get(
+  '/:slug/revisions',
+  authenticate,
+  [
+    param('slug').isString().trim(),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 50 }).toInt(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 20;
+      const skip = (page - 1) * limit;
+
+      const post = await findOwnedPost(req.params.slug, req.user!.oid);
+
+      const [revisions, total] = await Promise.all([
+        PostRevision.find({ post: post._id })
+          .select('-content')
+          .sort({ revision: -1 })
+          .skip(skip)
+          .limit(limit)
+          .populate('editor', 'displayName username')
+          .lean(),
+        PostRevision.countDocuments({ post: post._id }),
+      ]);
+
+      res.json({
+        revisions,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/posts/:slug/revisions/diff?from=&to=
+ * Diff between any two revisions
+ */
+router.get(
+  '/:slug/revisions/diff',
+  authenticate,
+  [
+    param('slug').isString().trim(),
+    query('from').isInt({ min: 1 }).toInt(),
+    query('to').isInt({ min: 1 }).toInt(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const from = req.query.from as unknown as number;
+      const to = req.query.to as unknown as number;
+
+      const post = await findOwnedPost(req.params.slug, req.user!.oid);
+
+      const revisions = await PostRevision.find({
+        post: post._id,
+        revision: { $in: [from, to] },
+      }).lean();
+
+      const fromRevision = revisions.find((r) => r.revision === from);
+      const toRevision = revisions.find((r) => r.revision === to);
+      if (!fromRevision || !toRevision) {
+        next(ApiError.notFound('Revision'));
+        return;
+      }
+
+      res.json(diffRevisions(fromRevision, toRevision));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/posts/:slug/revisions/:revision
+ * Get a single revision including content
+ */
+router.get(
+  '/:slug/revisions/:revision',
+  authenticate,
+  [param('slug').isString().trim(), param('revision').isInt({ min: 1 }).toInt()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const post = await findOwnedPost(req.params.slug, req.user!.oid);
+
+      const revision = await PostRevision.findOne({
+        post: post._id,
+        revision: req.params.revision as unknown as number,
+      })
+        .populate('editor', 'displayName username')
+        .lean();
+
+      if (!revision) {
+        next(ApiError.notFound('Revision'));
+        return;
+      }
+
+      res.json(revision);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/posts/:slug/revisions/:revision/restore
+ * Restore title, content, excerpt and tags from an older revision
+ * The restore itself is recorded as a new revision, so it can be undone
+ */
+router.post(
+  '/:slug/revisions/:revision/restore',
+  authenticate,
+  [param('slug').isString().trim(), param('revision').isInt({ min: 1 }).toInt()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const post = await findOwnedPost(req.params.slug, req.user!.oid);
+      const revisionNumber = req.params.revision as unknown as number;
+
+      const revision = await PostRevision.findOne({
+        post: post._id,
+        revision: revisionNumber,
+      }).lean();
+
+      if (!revision) {
+        next(ApiError.notFound('Revision'));
+        return;
+      }
+
+      // Revision fields were sanitized when originally saved
+      post.title = revision.title;
+      post.content = revision.content;
+      post.contentHtml = renderMarkdown(revision.content);
+      post.excerpt = revision.excerpt;
+      post.tags = revision.tags;
+
+      // The restored post and its revision are written together: a restore never
+      // lands without the revision that lets it be undone
+      const editorId = (post.author as unknown as { _id: Types.ObjectId })._id;
+      await runInTransaction(async (session) => {
+        await post.save({ session });
+        await recordRevision(post, editorId, { restoredFrom: revisionNumber, session });
+        await publishEvent('post.updated', { postId: post._id, status: post.status }, { session });
+      });
+
+      const restoredPost = await Post.findById(post._id)
+        .populate('author', 'displayName username avatarUrl')
+        .lean();
+
+      logger.info('Post revision restored:', { postId: post._id, revision: revisionNumber });
+
+      res.json(restoredPost);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,74 @@
+/**
+ * Post Stats Routes
+ * View statistics for a post's author
+ * Reference: /design/BackendApplicationDesign.md
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { authenticate } from '../middleware/auth.middleware';
+import { ApiError } from '../middleware/error.middleware';
+import { Post } from '../models';
+import { getDailyViews } from '../services/views.service';
+
+const router = Router();
+
+/**
+ * Validation error handler
+ */
+function handleValidation(req: Request, _res: Response, next: NextFunction): void {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    next(ApiError.badRequest('Validation failed', { errors: errors.array() }));
+    return;
+  }
+  next();
+}
+
+/**
+ * GET /api/posts/:slug/stats
+ * Total and per-day views over the last `days` days (author only)
+ */
+router.get(
+  '/:slug/stats',
+  authenticate,
+  [param('slug').isString().trim(), query('days').optional().isInt({ min: 1, max: 365 }).toInt()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const days = (req.query.days as unknown as number) || 30;
+
+      const post = await Post.findOne({ slug: req.params.slug })
+        .select('slug title status viewCount publishedAt author')
+        .populate('author', 'oid')
+        .lean();
+      if (!post) {
+        next(ApiError.notFound('Post'));
+        return;
+      }
+
+      const authorOid = (post.author as unknown as { oid?: string } | null)?.oid;
+      if (authorOid !== req.user!.oid) {
+        next(ApiError.forbidden('You can only view stats for your own posts'));
+        return;
+      }
+
+      const daily = await getDailyViews(post._id, days);
+
+      res.json({
+        slug: post.slug,
+        title: post.title,
+        status: post.status,
+        publishedAt: post.publishedAt,
+        totalViews: post.viewCount,
+        periodViews: daily.reduce((sum, bucket) => sum + bucket.views, 0),
+        days,
+        daily,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
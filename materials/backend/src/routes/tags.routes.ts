@@ -0,0 +1,54 @@
+/**
+ * Tags Routes
+ * Tag index built from published posts
+ * Reference: /design/BackendApplicationDesign.md
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { query, validationResult } from 'express-validator';
+import { ApiError } from '../middleware/error.middleware';
+import { Post } from '../models';
+
+const router = Router();
+
+/**
+ * Validation error handler
+ */
+function handleValidation(req: Request, _res: Response, next: NextFunction): void {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    next(ApiError.badRequest('Validation failed', { errors: errors.array() }));
+    return;
+  }
+  next();
+}
+
+/**
+ * GET /api/tags
+ * List tags used by published posts with their post counts (most used first)
+ */
+router.get(
+  '/',
+  [query('limit').optional().isInt({ min: 1, max: 500 }).toInt()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const limit = (req.query.limit as unknown as number) || 100;
+
+      const tags = await Post.aggregate<{ tag: string; count: number }>([
+        { $match: { status: 'published' } },
+        { $unwind: '$tags' },
+        { $group: { _id: '$tags', count: { $sum: 1 } } },
+        { $sort: { count: -1, _id: 1 } },
+        { $limit: limit },
+        { $project: { _id: 0, tag: '$_id', count: 1 } },
+      ]);
+
+      res.json({ tags });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
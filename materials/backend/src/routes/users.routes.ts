@@ -5,15 +5,38 @@
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { body, param, validationResult } from 'express-validator';
-import { authenticate } from '../middleware/auth.middleware';
+import { body, param, query, validationResult } from 'express-validator';
+import rateLimit from 'express-rate-limit';
+import { authenticate, optionalAuthenticate } from '../middleware/auth.middleware';
 import { ApiError } from '../middleware/error.middleware';
-import { User } from '../models';
-import { logger, sanitizeEmail } from '../utils/logger';
+import { EMAIL_FREQUENCIES, Post, User } from '../models';
+import {
+  changeUsername,
+  checkUsernameAvailability,
+  findViewerId,
+  resolveUsernameRedirect,
+} from '../services/users.service';
+import { getAuthorDashboard } from '../services/dashboard.service';
+import { getEmailPreferences, updateEmailPreferences } from '../services/email.service';
+import { publishEvent } from '../services/events.service';
+import { follow, getFollowCounts, isFollowing, unfollow } from '../services/follows.service';
+import { provisionUser } from '../services/provisioning.service';
+import { logger } from '../utils/logger';
 import { sanitizePlain } from '../utils/sanitize';
 
 const router = Router();
 
+// Per-user limit on username lookups and changes, on top of the global /api limit
+// (stops enumerating taken usernames through the availability check)
+const usernameLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 30,
+  keyGenerator: (req) => req.user?.oid ?? req.ip ?? 'unknown',
+  message: { error: { code: 'RATE_LIMITED', message: 'Too many username requests' } },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 /**
  * Validation error handler
  */
@@ -28,32 +51,142 @@ function handleValidation(req: Request, _res: Response, next: NextFunction): voi
 
 /**
  * GET /api/users/me
- * Get current authenticated user's profile
+ * Get current authenticated user's profile (created on first sign-in)
  */
 router.get(
   '/me',
   authenticate,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const existingUser = await User.findOne({ oid: req.user!.oid }).lean();
+      const user = await provisionUser(req.user!);
+      res.json(user.toObject());
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/users/me/dashboard
+ * Current user's author statistics: posts by status, views, comments received,
+ * top posts and recent comments on their posts
+ */
+router.get(
+  '/me/dashboard',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await provisionUser(req.user!);
+      const dashboard = await getAuthorDashboard(user._id);
+
+      res.json(dashboard);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/users/me/email-preferences
+ * Which notification emails the current user receives, and how often
+ */
+router.get(
+  '/me/email-preferences',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await provisionUser(req.user!);
+      const preferences = await getEmailPreferences(user._id);
+
+      res.json(preferences);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/users/me/email-preferences
+ * Change email preferences (each field: off, instant or daily)
+ */
+router.put(
+  '/me/email-preferences',
+  authenticate,
+  [
+    body('replies').optional().isIn(EMAIL_FREQUENCIES),
+    body('newPosts').optional().isIn(EMAIL_FREQUENCIES),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await provisionUser(req.user!);
+      const preferences = await updateEmailPreferences(user._id, {
+        replies: req.body.replies,
+        newPosts: req.body.newPosts,
+      });
+
+      logger.info('Email preferences updated:', { userId: user._id, preferences });
+
+      res.json(preferences);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/users/username-available?username=
+ * Check whether a username can be claimed by the current user
+ */
+router.get(
+  '/username-available',
+  authenticate,
+  usernameLimiter,
+  [query('username').isString().trim()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await User.findOne({ oid: req.user!.oid }).select('_id');
+      const availability = await checkUsernameAvailability(req.query.username as string, user?._id);
+
+      res.json(availability);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/users/me/username
+ * Change current user's username; the old one redirects to the new one
+ */
+router.put(
+  '/me/username',
+  authenticate,
+  usernameLimiter,
+  [body('username').isString().trim()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const existingUser = await User.findOne({ oid: req.user!.oid }).select('_id username');
 
       if (!existingUser) {
-        // First-time user - create profile from token info
-        const newUser = await User.create({
-          oid: req.user!.oid,
-          email: req.user!.email,
-          displayName: sanitizePlain(req.user!.name),
-          username: req.user!.email.split('@')[0].toLowerCase().replace(/[^a-z0-9_-]/g, ''),
-          lastLoginAt: new Date(),
-        });
-        logger.info('New user created:', { oid: req.user!.oid, email: sanitizeEmail(req.user!.email) });
-        res.json(newUser.toObject());
+        next(ApiError.notFound('User'));
         return;
       }
 
-      // Update last login
-      await User.updateOne({ oid: req.user!.oid }, { lastLoginAt: new Date() });
-      res.json(existingUser);
+      const oldUsername = existingUser.username;
+      const user = await changeUsername(existingUser._id, req.body.username);
+
+      if (user.username !== oldUsername) {
+        logger.info('Username changed:', {
+          userId: user._id,
+          oldUsername,
+          username: user.username,
+        });
+      }
+
+      res.json(user.toObject());
     } catch (error) {
       next(error);
     }
@@ -62,10 +195,13 @@ router.get(
 
 /**
  * GET /api/users/:username
- * Get user by username (public profile)
+ * Get user by username (public profile with published post and follow counts)
+ * `following` is included for signed-in readers other than the user themselves
+ * Previous usernames answer with a temporary redirect to the current one
  */
 router.get(
   '/:username',
+  optionalAuthenticate,
   [param('username').isString().trim().isLength({ min: 3, max: 30 })],
   handleValidation,
   async (req: Request, res: Response, next: NextFunction) => {
@@ -78,11 +214,94 @@ router.get(
         .lean();
 
       if (!user) {
+        // Previous username: redirect to the current profile. Not permanent and not
+        // cached, since the user can rename back to it or someone else can take it
+        const current = await resolveUsernameRedirect(req.params.username);
+        if (current) {
+          res.set('Cache-Control', 'no-store');
+          res.redirect(307, `${req.baseUrl}/${encodeURIComponent(current)}`);
+          return;
+        }
         next(ApiError.notFound('User'));
         return;
       }
 
-      res.json(user);
+      const [postCount, followCounts, viewerId] = await Promise.all([
+        Post.countDocuments({ author: user._id, status: 'published' }),
+        getFollowCounts(user._id),
+        findViewerId(req.user?.oid),
+      ]);
+
+      const profile: Record<string, unknown> = { ...user, postCount, ...followCounts };
+      if (viewerId && !viewerId.equals(user._id)) {
+        profile.following = await isFollowing(viewerId, user._id);
+      }
+
+      res.json(profile);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/users/:username/follow
+ * Follow an author (idempotent)
+ */
+router.put(
+  '/:username/follow',
+  authenticate,
+  [param('username').isString().trim().isLength({ min: 3, max: 30 })],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const followee = await User.findOne({ username: req.params.username, isActive: true }).select(
+        '_id'
+      );
+      if (!followee) {
+        next(ApiError.notFound('User'));
+        return;
+      }
+
+      const user = await provisionUser(req.user!);
+      await follow(user._id, followee._id);
+
+      logger.debug('User followed:', { followerId: user._id, followeeId: followee._id });
+
+      await publishEvent('user.followed', { followerId: user._id, followeeId: followee._id });
+
+      res.json({ following: true, ...(await getFollowCounts(followee._id)) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/users/:username/follow
+ * Stop following an author (idempotent)
+ */
+router.delete(
+  '/:username/follow',
+  authenticate,
+  [param('username').isString().trim().isLength({ min: 3, max: 30 })],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const [followee, userId] = await Promise.all([
+        User.findOne({ username: req.params.username }).select('_id'),
+        findViewerId(req.user!.oid),
+      ]);
+      if (!followee) {
+        next(ApiError.notFound('User'));
+        return;
+      }
+
+      if (userId) {
+        await unfollow(userId, followee._id);
+      }
+
+      res.json({ following: false, ...(await getFollowCounts(followee._id)) });
     } catch (error) {
       next(error);
     }
@@ -91,7 +310,7 @@ router.get(
 
 /**
  * PUT /api/users/me
- * Update current user's profile
+ * Update current user's profile (username changes: PUT /api/users/me/username)
  */
 router.put(
   '/me',
@@ -99,14 +318,20 @@ router.put(
   [
     body('displayName').optional().isString().trim().isLength({ min: 1, max: 100 }),
     body('bio').optional().isString().trim().isLength({ max: 500 }),
-    body('avatarUrl').optional().isURL(),
+    // Empty string clears the avatar
+    body('avatarUrl')
+      .optional({ values: 'falsy' })
+      .isURL({ protocols: ['http', 'https'], require_protocol: true }),
   ],
   handleValidation,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const updates: Record<string, unknown> = {};
 
-      if (req.body.displayName) updates.displayName = sanitizePlain(req.body.displayName);
+      if (req.body.displayName) {
+        updates.displayName = sanitizePlain(req.body.displayName);
+        updates.displayNameCustomized = true;
+      }
       if (req.body.bio !== undefined) updates.bio = sanitizePlain(req.body.bio);
       if (req.body.avatarUrl !== undefined) updates.avatarUrl = req.body.avatarUrl;
 
@@ -0,0 +1,354 @@
+/**
+ * Webhooks Routes
+ * Admin management of webhook endpoints and their delivery log
+ * Reference: /design/BackendApplicationDesign.md
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+import { ApiError } from '../middleware/error.middleware';
+import { Webhook, WEBHOOK_DELIVERY_STATUSES, WEBHOOK_EVENTS, WebhookDelivery } from '../models';
+import { provisionUser } from '../services/provisioning.service';
+import {
+  deleteDeliveries,
+  generateWebhookSecret,
+  queuePing,
+  redeliver,
+} from '../services/webhooks.service';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Every webhook endpoint requires an authenticated admin
+router.use(authenticate, authorize('admin'));
+
+/**
+ * Validation error handler
+ */
+function handleValidation(req: Request, _res: Response, next: NextFunction): void {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    next(ApiError.badRequest('Validation failed', { errors: errors.array() }));
+    return;
+  }
+  next();
+}
+
+// Internal receivers often have no public TLD (e.g. http://indexer.internal:8080)
+const URL_OPTIONS = { protocols: ['http', 'https'], require_protocol: true, require_tld: false };
+
+/**
+ * GET /api/admin/webhooks
+ * List webhooks (secrets are never listed)
+ */
+router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const webhooks = await Webhook.find()
+      .sort({ createdAt: -1 })
+      .populate('createdBy', 'displayName username')
+      .lean();
+
+    res.json({ webhooks });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/admin/webhooks
+ * Create a webhook; the response is the only time its signing secret is shown
+ */
+router.post(
+  '/',
+  [
+    body('url').isString().trim().isURL(URL_OPTIONS).isLength({ max: 2000 }),
+    body('events').isArray({ min: 1 }),
+    body('events.*').isIn(WEBHOOK_EVENTS),
+    body('description').optional().isString().trim().isLength({ max: 200 }),
+    body('isActive').optional().isBoolean().toBoolean(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const admin = await provisionUser(req.user!);
+      const secret = generateWebhookSecret();
+
+      const webhook = await Webhook.create({
+        url: req.body.url,
+        description: req.body.description,
+        events: [...new Set<string>(req.body.events)],
+        isActive: req.body.isActive ?? true,
+        secret,
+        createdBy: admin._id,
+      });
+
+      logger.info('Webhook created:', { webhookId: webhook._id, adminOid: req.user!.oid });
+
+      // The created document still holds the secret (select: false only applies to queries)
+      res.status(201).json(webhook);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/admin/webhooks/:id
+ * Get a webhook
+ */
+router.get(
+  '/:id',
+  [param('id').isMongoId()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const webhook = await Webhook.findById(req.params.id)
+        .populate('createdBy', 'displayName username')
+        .lean();
+
+      if (!webhook) {
+        next(ApiError.notFound('Webhook'));
+        return;
+      }
+
+      res.json(webhook);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/admin/webhooks/:id
+ * Change a webhook's URL, events, description or active state
+ */
+router.put(
+  '/:id',
+  [
+    param('id').isMongoId(),
+    body('url').optional().isString().trim().isURL(URL_OPTIONS).isLength({ max: 2000 }),
+    body('events').optional().isArray({ min: 1 }),
+    body('events.*').isIn(WEBHOOK_EVENTS),
+    body('description').optional().isString().trim().isLength({ max: 200 }),
+    body('isActive').optional().isBoolean().toBoolean(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const webhook = await Webhook.findById(req.params.id);
+
+      if (!webhook) {
+        next(ApiError.notFound('Webhook'));
+        return;
+      }
+
+      if (req.body.url !== undefined) webhook.url = req.body.url;
+      if (req.body.events !== undefined) webhook.set('events', [...new Set(req.body.events)]);
+      if (req.body.description !== undefined) webhook.description = req.body.description;
+      if (req.body.isActive !== undefined) webhook.isActive = req.body.isActive;
+      await webhook.save();
+
+      logger.info('Webhook updated:', { webhookId: webhook._id, adminOid: req.user!.oid });
+
+      res.json(webhook);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/admin/webhooks/:id/secret
+ * Replace the signing secret; returns the new one (the old one stops working at once)
+ */
+router.post(
+  '/:id/secret',
+  [param('id').isMongoId()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const secret = generateWebhookSecret();
+      const webhook = await Webhook.findByIdAndUpdate(req.params.id, { $set: { secret } });
+
+      if (!webhook) {
+        next(ApiError.notFound('Webhook'));
+        return;
+      }
+
+      logger.info('Webhook secret rotated:', { webhookId: webhook._id, adminOid: req.user!.oid });
+
+      res.json({ secret });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/webhooks/:id
+ * Delete a webhook with its delivery log (pending deliveries are dropped)
+ */
+router.delete(
+  '/:id',
+  [param('id').isMongoId()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const webhook = await Webhook.findByIdAndDelete(req.params.id);
+
+      if (!webhook) {
+        next(ApiError.notFound('Webhook'));
+        return;
+      }
+
+      await deleteDeliveries(webhook._id);
+
+      logger.info('Webhook deleted:', { webhookId: webhook._id, adminOid: req.user!.oid });
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/admin/webhooks/:id/ping
+ * Queue a test 'ping' delivery (also to inactive webhooks)
+ */
+router.post(
+  '/:id/ping',
+  [param('id').isMongoId()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const webhook = await Webhook.exists({ _id: req.params.id });
+
+      if (!webhook) {
+        next(ApiError.notFound('Webhook'));
+        return;
+      }
+
+      const delivery = await queuePing(webhook._id);
+
+      res.status(202).json(delivery);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/admin/webhooks/:id/deliveries
+ * Delivery log, newest first (payloads and response bodies omitted)
+ */
+router.get(
+  '/:id/deliveries',
+  [
+    param('id').isMongoId(),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('status').optional().isIn(WEBHOOK_DELIVERY_STATUSES),
+    query('event').optional().isString().trim(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 20;
+      const skip = (page - 1) * limit;
+
+      const webhook = await Webhook.exists({ _id: req.params.id });
+      if (!webhook) {
+        next(ApiError.notFound('Webhook'));
+        return;
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const filter: Record<string, any> = { webhook: webhook._id };
+      if (req.query.status) filter.status = req.query.status;
+      if (req.query.event) filter.event = req.query.event;
+
+      const [deliveries, total] = await Promise.all([
+        WebhookDelivery.find(filter)
+          .select('-payload -responseBody')
+          .sort({ createdAt: -1, _id: -1 })
+          .skip(skip)
+          .limit(limit)
+          .lean(),
+        WebhookDelivery.countDocuments(filter),
+      ]);
+
+      res.json({
+        deliveries,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/admin/webhooks/:id/deliveries/:deliveryId
+ * One delivery with its payload and the receiver's response
+ */
+router.get(
+  '/:id/deliveries/:deliveryId',
+  [param('id').isMongoId(), param('deliveryId').isMongoId()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const delivery = await WebhookDelivery.findOne({
+        _id: req.params.deliveryId,
+        webhook: req.params.id,
+      }).lean();
+
+      if (!delivery) {
+        next(ApiError.notFound('Delivery'));
+        return;
+      }
+
+      res.json(delivery);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/admin/webhooks/:id/deliveries/:deliveryId/redeliver
+ * Send a finished delivery again (same event id and payload, new signature)
+ */
+router.post(
+  '/:id/deliveries/:deliveryId/redeliver',
+  [param('id').isMongoId(), param('deliveryId').isMongoId()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const webhook = await Webhook.exists({ _id: req.params.id });
+      if (!webhook) {
+        next(ApiError.notFound('Webhook'));
+        return;
+      }
+
+      const delivery = await redeliver(webhook._id, req.params.deliveryId);
+
+      logger.info('Webhook redelivery queued:', {
+        deliveryId: delivery._id,
+        redeliveryOf: delivery.redeliveryOf,
+        adminOid: req.user!.oid,
+      });
+
+      res.status(202).json(delivery);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
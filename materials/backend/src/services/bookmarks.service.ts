@@ -0,0 +1,21 @@
+/**
+ * Bookmarks Service
+ * Reading list lookups and cleanup shared by post and admin routes
+ */
+
+import { Types } from 'mongoose';
+import { Bookmark } from '../models';
+
+export async function isBookmarked(
+  userId: Types.ObjectId,
+  postId: Types.ObjectId
+): Promise<boolean> {
+  return (await Bookmark.exists({ user: userId, post: postId })) !== null;
+}
+
+/**
+ * Remove a post from every reading list (post deleted or archived)
+ */
+export async function deleteBookmarks(postId: Types.ObjectId): Promise<void> {
+  await Bookmark.deleteMany({ post: postId });
+}
@@ -0,0 +1,116 @@
+/**
+ * Comments Service
+ * Builds nested reply trees for threaded comment listings
+ * Reference: /design/DatabaseDesign.md - Comment threading
+ */
+
+import { Types } from 'mongoose';
+import { Comment } from '../models';
+
+/**
+ * Author fields exposed on every comment in API responses
+ * oid lets clients recognise their own comments (same as GET /api/posts/:slug)
+ */
+export const COMMENT_AUTHOR_FIELDS = 'displayName username avatarUrl oid';
+
+/**
+ * Filter for comments shown to readers: not soft-deleted by the author and
+ * not hidden by a moderator. `$ne` also matches comments created before
+ * isHidden existed.
+ */
+export const VISIBLE_COMMENT_FILTER = { isDeleted: false, isHidden: { $ne: true } };
+
+/** Maximum nesting depth a client may request in a single call */
+export const MAX_REPLY_DEPTH = 5;
+
+/**
+ * Comment as returned by the API, with its loaded replies
+ * `replyCount` is the total number of direct replies; when it exceeds
+ * `replies.length`, clients load the rest via GET /api/comments/:id/replies
+ */
+export interface CommentNode {
+  _id: Types.ObjectId;
+  parentComment?: Types.ObjectId | null;
+  createdAt: Date;
+  replyCount: number;
+  hasMoreReplies: boolean;
+  replies: CommentNode[];
+  [key: string]: unknown;
+}
+
+interface ReplyGroup {
+  _id: Types.ObjectId;
+  count: number;
+  replies: Record<string, unknown>[];
+}
+
+/**
+ * Attach reply counts and the first `replyLimit` replies to each comment,
+ * recursing up to `depth` levels (depth 0 fills in counts only). Issues one
+ * aggregation per level rather than one query per comment. Deleted and
+ * hidden replies are excluded, matching the top-level listing.
+ */
+export async function attachReplies(
+  comments: Record<string, unknown>[],
+  depth: number,
+  replyLimit: number
+): Promise<CommentNode[]> {
+  const nodes = comments.map((comment) => ({
+    ...comment,
+    replyCount: 0,
+    hasMoreReplies: false,
+    replies: [],
+  })) as unknown as CommentNode[];
+
+  if (nodes.length === 0) {
+    return nodes;
+  }
+
+  const groups = await Comment.aggregate<ReplyGroup>([
+    {
+      $match: {
+        parentComment: { $in: nodes.map((node) => node._id) },
+        ...VISIBLE_COMMENT_FILTER,
+      },
+    },
+    { $sort: { createdAt: 1 } },
+    {
+      $group: {
+        _id: '$parentComment',
+        count: { $sum: 1 },
+        replies: { $push: '$$ROOT' },
+      },
+    },
+    {
+      $project: {
+        count: 1,
+        replies: { $slice: ['$replies', depth > 0 ? replyLimit : 0] },
+      },
+    },
+  ]);
+
+  const groupsByParent = new Map(groups.map((group) => [group._id.toString(), group]));
+
+  // Load the next level in one batch, then distribute back to parents.
+  // At depth 0 the slice above is empty, so only the counts are filled in.
+  const childDocs = groups.flatMap((group) => group.replies);
+  let children: CommentNode[] = [];
+  if (childDocs.length > 0) {
+    await Comment.populate(childDocs, { path: 'author', select: COMMENT_AUTHOR_FIELDS });
+    children = await attachReplies(childDocs, depth - 1, replyLimit);
+  }
+  const childrenById = new Map(children.map((child) => [child._id.toString(), child]));
+
+  for (const node of nodes) {
+    const group = groupsByParent.get(node._id.toString());
+    if (!group) continue;
+
+    node.replyCount = group.count;
+    node.replies = group.replies
+      .map((reply) => childrenById.get((reply._id as Types.ObjectId).toString()))
+      .filter((reply): reply is CommentNode => reply !== undefined);
+    node.hasMoreReplies = node.replyCount > node.replies.length;
+  }
+
+  return nodes;
+}
@@ -0,0 +1,130 @@
+/**
+ * Dashboard Service
+ * Per-author statistics computed with aggregations over posts, comments and views
+ */
+
+import { Types } from 'mongoose';
+import { Comment, Post, PostViewDaily } from '../models';
+import { COMMENT_AUTHOR_FIELDS, VISIBLE_COMMENT_FILTER } from './comments.service';
+import { utcDay } from './views.service';
+
+const TOP_POSTS = 5;
+const RECENT_COMMENTS = 10;
+const RECENT_DAYS = 30;
+
+type PostStatus = 'draft' | 'scheduled' | 'published' | 'archived';
+
+export interface AuthorDashboard {
+  posts: Record<PostStatus, number> & { total: number };
+  views: { total: number; last30Days: number };
+  comments: { total: number; last30Days: number };
+  topPosts: {
+    _id: Types.ObjectId;
+    title: string;
+    slug: string;
+    viewCount: number;
+    commentCount: number;
+    publishedAt?: Date;
+  }[];
+  recentComments: Record<string, unknown>[];
+}
+
+interface PostFacets {
+  byStatus: { _id: PostStatus; count: number; views: number }[];
+  topPosts: Omit<AuthorDashboard['topPosts'][number], 'commentCount'>[];
+  ids: { _id: null; ids: Types.ObjectId[] }[];
+}
+
+interface CommentFacets {
+  total: { count: number }[];
+  recent: { count: number }[];
+  byPost: { _id: Types.ObjectId; count: number }[];
+  latest: Record<string, unknown>[];
+}
+
+/**
+ * Totals, top posts and recent comments for one author
+ * Comments by the author on their own posts are not counted as received.
+ */
+export async function getAuthorDashboard(authorId: Types.ObjectId): Promise<AuthorDashboard> {
+  const since = new Date(Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000);
+
+  const [postFacets] = await Post.aggregate<PostFacets>([
+    { $match: { author: authorId } },
+    {
+      $facet: {
+        byStatus: [
+          { $group: { _id: '$status', count: { $sum: 1 }, views: { $sum: '$viewCount' } } },
+        ],
+        topPosts: [
+          { $match: { status: 'published' } },
+          { $sort: { viewCount: -1, publishedAt: -1 } },
+          { $limit: TOP_POSTS },
+          { $project: { title: 1, slug: 1, viewCount: 1, publishedAt: 1 } },
+        ],
+        ids: [{ $group: { _id: null, ids: { $push: '$_id' } } }],
+      },
+    },
+  ]);
+
+  const postIds = postFacets?.ids[0]?.ids ?? [];
+  const receivedFilter = {
+    post: { $in: postIds },
+    author: { $ne: authorId },
+    ...VISIBLE_COMMENT_FILTER,
+  };
+
+  const [[commentFacets], recentViews] = await Promise.all([
+    Comment.aggregate<CommentFacets>([
+      { $match: receivedFilter },
+      {
+        $facet: {
+          total: [{ $count: 'count' }],
+          recent: [{ $match: { createdAt: { $gte: since } } }, { $count: 'count' }],
+          byPost: [{ $group: { _id: '$post', count: { $sum: 1 } } }],
+          latest: [
+            { $sort: { createdAt: -1, _id: -1 } },
+            { $limit: RECENT_COMMENTS },
+            { $project: { content: 1, createdAt: 1, author: 1, post: 1, parentComment: 1 } },
+          ],
+        },
+      },
+    ]),
+    PostViewDaily.aggregate<{ views: number }>([
+      { $match: { post: { $in: postIds }, day: { $gte: utcDay(since) } } },
+      { $group: { _id: null, views: { $sum: '$views' } } },
+    ]),
+  ]);
+
+  const latest = commentFacets?.latest ?? [];
+  await Comment.populate(latest, [
+    { path: 'author', select: COMMENT_AUTHOR_FIELDS },
+    { path: 'post', select: 'title slug' },
+  ]);
+
+  const posts = { total: 0, draft: 0, scheduled: 0, published: 0, archived: 0 };
+  let totalViews = 0;
+  for (const group of postFacets?.byStatus ?? []) {
+    posts[group._id] = group.count;
+    posts.total += group.count;
+    totalViews += group.views;
+  }
+
+  const commentsByPost = new Map(
+    (commentFacets?.byPost ?? []).map((group) => [group._id.toString(), group.count])
+  );
+
+  return {
+    posts,
+    views: { total: totalViews, last30Days: recentViews[0]?.views ?? 0 },
+    comments: {
+      total: commentFacets?.total[0]?.count ?? 0,
+      last30Days: commentFacets?.recent[0]?.count ?? 0,
+    },
+    topPosts: (postFacets?.topPosts ?? []).map((post) => ({
+      ...post,
+      commentCount: commentsByPost.get(post._id.toString()) ?? 0,
+    })),
+    recentComments: latest,
+  };
+}
@@ -0,0 +1,300 @@
+/**
+ * Email Service
+ * Queues reply and new-post emails in the outbox according to each recipient's
+ * preferences, and manages those preferences and one-click unsubscribe tokens
+ *
+ * Nothing is sent here: the email worker (emailWorker.service.ts) delivers
+ * queued entries, so a slow or unavailable mail server never delays a request.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Types } from 'mongoose';
+import { config } from '../config/environment';
+import { ApiError } from '../middleware/error.middleware';
+import {
+  DEFAULT_EMAIL_PREFERENCES,
+  EmailOutbox,
+  EmailPreferences,
+  EmailTemplate,
+  Follow,
+  User,
+} from '../models';
+import type { NewPostEmailData, ReplyEmailData } from './email/templates';
+import { sanitizePlain } from '../utils/sanitize';
+
+const EXCERPT_LENGTH = 280;
+const INSERT_BATCH_SIZE = 500;
+
+// Outbox template of each preference category
+const CATEGORY_TEMPLATES: Record<keyof EmailPreferences, EmailTemplate> = {
+  replies: 'reply',
+  newPosts: 'new-post',
+};
+
+export type UnsubscribeCategory = keyof EmailPreferences | 'all';
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+};
+
+/**
+ * Plain-text excerpt of stored (sanitized) HTML; templates escape it again
+ */
+function excerpt(html: string): string {
+  const text = sanitizePlain(html)
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (entity) => HTML_ENTITIES[entity] ?? entity)
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Stored preferences with defaults filled in (older users have none stored)
+ */
+export function withDefaultPreferences(
+  preferences?: Partial<EmailPreferences> | null
+): EmailPreferences {
+  return {
+    replies: preferences?.replies ?? DEFAULT_EMAIL_PREFERENCES.replies,
+    newPosts: preferences?.newPosts ?? DEFAULT_EMAIL_PREFERENCES.newPosts,
+  };
+}
+
+/**
+ * Next daily digest time (EMAIL_DIGEST_HOUR_UTC), strictly after `from`
+ */
+export function nextDigestAt(from: Date = new Date()): Date {
+  const next = new Date(from);
+  next.setUTCHours(config.email.digestHourUtc, 0, 0, 0);
+  if (next <= from) {
+    next.setUTCDate(next.getUTCDate() + 1);
+  }
+  return next;
+}
+
+export async function getEmailPreferences(userId: Types.ObjectId): Promise<EmailPreferences> {
+  const user = await User.findById(userId).select('emailPreferences').lean();
+  if (!user) {
+    throw ApiError.notFound('User');
+  }
+  return withDefaultPreferences(user.emailPreferences);
+}
+
+/**
+ * Change email preferences
+ * Categories turned off also lose their queued emails, including digest items.
+ */
+export async function updateEmailPreferences(
+  userId: Types.ObjectId,
+  changes: Partial<EmailPreferences>
+): Promise<EmailPreferences> {
+  const $set: Record<string, string> = {};
+  const cancelled: EmailTemplate[] = [];
+  for (const [key, value] of Object.entries(changes)) {
+    if (value !== undefined) {
+      $set[`emailPreferences.${key}`] = value;
+    }
+    if (value === 'off') {
+      cancelled.push(CATEGORY_TEMPLATES[key as keyof EmailPreferences]);
+    }
+  }
+
+  const user = await User.findByIdAndUpdate(userId, { $set }, { new: true, runValidators: true })
+    .select('emailPreferences')
+    .lean();
+  if (!user) {
+    throw ApiError.notFound('User');
+  }
+
+  if (cancelled.length > 0) {
+    await EmailOutbox.deleteMany({ user: userId, status: 'pending', template: { $in: cancelled } });
+  }
+
+  return withDefaultPreferences(user.emailPreferences);
+}
+
+// ============================================================================
+// Unsubscribe tokens
+// ============================================================================
+
+function signature(payload: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(payload).digest();
+}
+
+/**
+ * Token for a one-click unsubscribe link: the user id and category, signed with
+ * EMAIL_UNSUBSCRIBE_SECRET. Tokens don't expire, so links in old emails keep working.
+ */
+export function createUnsubscribeToken(
+  userId: Types.ObjectId,
+  category: UnsubscribeCategory
+): string {
+  const secret = config.email.unsubscribeSecret;
+  if (!secret) {
+    throw new Error('EMAIL_UNSUBSCRIBE_SECRET is not configured');
+  }
+  const payload = Buffer.from(JSON.stringify({ u: userId.toString(), c: category })).toString(
+    'base64url'
+  );
+  return `${payload}.${signature(payload, secret).toString('base64url')}`;
+}
+
+function verifyUnsubscribeToken(
+  token: string
+): { userId: Types.ObjectId; category: UnsubscribeCategory } | null {
+  const secret = config.email.unsubscribeSecret;
+  const [payload, sig] = token.split('.');
+  if (!secret || !payload || !sig) return null;
+
+  const expected = signature(payload, secret);
+  const actual = Buffer.from(sig, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const { u, c } = JSON.parse(Buffer.from(payload, 'base64url').toString()) as {
+      u: string;
+      c: UnsubscribeCategory;
+    };
+    if (!Types.ObjectId.isValid(u) || !['replies', 'newPosts', 'all'].includes(c)) return null;
+    return { userId: new Types.ObjectId(u), category: c };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Turn off the email category named in an unsubscribe token
+ * Pending emails in that category are cancelled as well (updateEmailPreferences).
+ */
+export async function unsubscribe(
+  token: string
+): Promise<{ category: UnsubscribeCategory; preferences: EmailPreferences }> {
+  const verified = verifyUnsubscribeToken(token);
+  if (!verified) {
+    throw ApiError.badRequest('Invalid unsubscribe link');
+  }
+
+  const { userId, category } = verified;
+  const preferences = await updateEmailPreferences(
+    userId,
+    category === 'all' ? { replies: 'off', newPosts: 'off' } : { [category]: 'off' }
+  );
+
+  return { category, preferences };
+}
+
+// ============================================================================
+// Queueing
+// ============================================================================
+
+/**
+ * Insert outbox entries, skipping any whose dedupeKey is already queued
+ */
+async function enqueue(entries: Record<string, unknown>[]): Promise<void> {
+  for (let i = 0; i < entries.length; i += INSERT_BATCH_SIZE) {
+    try {
+      await EmailOutbox.insertMany(entries.slice(i, i + INSERT_BATCH_SIZE), { ordered: false });
+    } catch (error) {
+      // Unordered insert: the other entries were still written
+      if ((error as { code?: number }).code !== 11000) throw error;
+    }
+  }
+}
+
+/**
+ * Queue an email to the parent comment's author about a reply
+ */
+export async function queueReplyEmail(reply: {
+  commentId: Types.ObjectId;
+  content: string;
+  recipient: Types.ObjectId;
+  actor: Types.ObjectId;
+  post: { title: string; slug: string };
+}): Promise<void> {
+  if (!config.email.enabled || reply.recipient.equals(reply.actor)) return;
+
+  const [recipient, actor] = await Promise.all([
+    User.findOne({ _id: reply.recipient, isActive: true }).select('emailPreferences').lean(),
+    User.findById(reply.actor).select('displayName').lean(),
+  ]);
+  if (!recipient || !actor) return;
+
+  const frequency = withDefaultPreferences(recipient.emailPreferences).replies;
+  if (frequency === 'off') return;
+
+  const data: ReplyEmailData = {
+    actorName: actor.displayName,
+    postTitle: reply.post.title,
+    postSlug: reply.post.slug,
+    excerpt: excerpt(reply.content),
+  };
+
+  await enqueue([
+    {
+      user: reply.recipient,
+      template: 'reply',
+      data,
+      digest: frequency === 'daily',
+      nextAttemptAt: frequency === 'daily' ? nextDigestAt() : new Date(),
+      dedupeKey: `reply:${reply.commentId.toString()}`,
+    },
+  ]);
+}
+
+/**
+ * Queue emails to the author's followers about a newly published post
+ * Called on every transition to published; the dedupe key keeps a post that is
+ * unpublished and published again from being announced twice.
+ */
+export async function queueNewPostEmails(post: {
+  _id: Types.ObjectId;
+  title: string;
+  slug: string;
+  excerpt?: string;
+  contentHtml?: string;
+  author: Types.ObjectId;
+}): Promise<void> {
+  if (!config.email.enabled) return;
+
+  const [author, followerIds] = await Promise.all([
+    User.findById(post.author).select('displayName').lean(),
+    Follow.find({ followee: post.author }).distinct('follower'),
+  ]);
+  if (!author || followerIds.length === 0) return;
+
+  const followers = await User.find({
+    _id: { $in: followerIds },
+    isActive: true,
+    'emailPreferences.newPosts': { $ne: 'off' },
+  })
+    .select('emailPreferences')
+    .lean();
+
+  const data: NewPostEmailData = {
+    authorName: author.displayName,
+    postTitle: post.title,
+    postSlug: post.slug,
+    excerpt: excerpt(post.excerpt || post.contentHtml || ''),
+  };
+  const now = new Date();
+  const digestAt = nextDigestAt(now);
+
+  await enqueue(
+    followers.map((follower) => {
+      const daily = withDefaultPreferences(follower.emailPreferences).newPosts === 'daily';
+      return {
+        user: follower._id,
+        template: 'new-post',
+        data,
+        digest: daily,
+        nextAttemptAt: daily ? digestAt : now,
+        dedupeKey: `new-post:${post._id.toString()}:${follower._id.toString()}`,
+      };
+    })
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Console Email Transport
+ * Local development: logs the recipient, subject and text body instead of sending
+ */
+
+import { logger } from '../../utils/logger';
+import type { EmailMessage, EmailTransport } from './index';
+
+export class ConsoleEmailTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(message: EmailMessage): Promise<void> {
+    logger.info(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * File Email Transport
+ * Local development: writes each email as an .eml file that any mail client opens
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import type { EmailMessage, EmailTransport } from './index';
+
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file';
+
+  // Builds the MIME message without delivering it
+  private readonly transporter: Transporter;
+
+  constructor(
+    private readonly directory: string,
+    private readonly from: string
+  ) {
+    this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const info = await this.transporter.sendMail({ from: this.from, ...message });
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const file = path.join(this.directory, `${Date.now()}-${recipient}.eml`);
+    await fs.writeFile(file, info.message as Buffer);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Email Transports
+ * Pluggable delivery for rendered emails, selected by EMAIL_TRANSPORT
+ */
+
+import { config } from '../../config/environment';
+import { ConsoleEmailTransport } from './console.transport';
+import { FileEmailTransport } from './file.transport';
+import { SmtpEmailTransport } from './smtp.transport';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>; // e.g. List-Unsubscribe
+}
+
+/**
+ * Transport contract
+ * send() resolves once the message is accepted for delivery and rejects on failure;
+ * the outbox worker retries rejected messages.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+let transport: EmailTransport | null = null;
+
+/**
+ * Get the configured email transport (created once per process)
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    switch (config.email.transport) {
+      case 'console':
+        transport = new ConsoleEmailTransport();
+        break;
+      case 'file':
+        transport = new FileEmailTransport(config.email.fileDir, config.email.from);
+        break;
+      default:
+        transport = new SmtpEmailTransport(config.email);
+    }
+  }
+  return transport;
+}
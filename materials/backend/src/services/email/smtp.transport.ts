@@ -0,0 +1,45 @@
+/**
+ * SMTP Email Transport
+ * Default transport; works with any relay (Azure Communication Services SMTP,
+ * SendGrid, Microsoft 365, a local Postfix)
+ *
+ * For AWS-experienced engineers:
+ * - Similar to sending through the Amazon SES SMTP interface
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import type { EmailMessage, EmailTransport } from './index';
+
+interface SmtpOptions {
+  from: string;
+  smtpHost?: string;
+  smtpPort: number;
+  smtpSecure: boolean;
+  smtpUser?: string;
+  smtpPassword?: string;
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  private readonly transporter: Transporter;
+  private readonly from: string;
+
+  constructor(options: SmtpOptions) {
+    if (!options.smtpHost) {
+      throw new Error('SMTP_HOST is required for the smtp email transport');
+    }
+    this.from = options.from;
+    this.transporter = nodemailer.createTransport({
+      host: options.smtpHost,
+      port: options.smtpPort,
+      secure: options.smtpSecure,
+      auth: options.smtpUser ? { user: options.smtpUser, pass: options.smtpPassword } : undefined,
+      pool: true, // Reuse connections across a worker batch
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Email Templates
+ * Renders outbox entries into subject, HTML and plain-text bodies
+ *
+ * Template data is a snapshot taken when the email was queued, so rendering
+ * never needs the database and a deleted post still produces a sensible email.
+ */
+
+import type { EmailTemplate } from '../../models';
+
+export interface ReplyEmailData {
+  actorName: string;
+  postTitle: string;
+  postSlug: string;
+  excerpt: string;
+}
+
+export interface NewPostEmailData {
+  authorName: string;
+  postTitle: string;
+  postSlug: string;
+  excerpt: string;
+}
+
+export type DigestItem =
+  | { template: 'reply'; data: ReplyEmailData }
+  | { template: 'new-post'; data: NewPostEmailData };
+
+export interface DigestEmailData {
+  items: DigestItem[];
+}
+
+export interface EmailLinks {
+  siteUrl: string;
+  unsubscribeUrl: string;
+  preferencesUrl: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function postUrl(links: EmailLinks, slug: string): string {
+  return `${links.siteUrl}/posts/${encodeURIComponent(slug)}`;
+}
+
+/**
+ * Shared HTML shell and text footer with the preferences and unsubscribe links
+ */
+function layout(links: EmailLinks, body: { html: string; text: string }): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+      ${body.html}
+    </div>
+    <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#6b7280;text-align:center">
+      <a href="${escapeHtml(links.preferencesUrl)}" style="color:#6b7280">Email preferences</a>
+      &middot;
+      <a href="${escapeHtml(links.unsubscribeUrl)}" style="color:#6b7280">Unsubscribe</a>
+    </p>
+  </body>
+</html>`;
+}
+
+function textFooter(links: EmailLinks): string {
+  return `\n\n--\nEmail preferences: ${links.preferencesUrl}\nUnsubscribe: ${links.unsubscribeUrl}\n`;
+}
+
+function replySection(data: ReplyEmailData, links: EmailLinks): { html: string; text: string } {
+  const url = postUrl(links, data.postSlug);
+  return {
+    html: `<p><strong>${escapeHtml(data.actorName)}</strong> replied to your comment on
+      <a href="${escapeHtml(url)}">${escapeHtml(data.postTitle)}</a>:</p>
+      <blockquote style="margin:0;padding:8px 12px;border-left:3px solid #d1d5db;color:#374151">${escapeHtml(data.excerpt)}</blockquote>`,
+    text: `${data.actorName} replied to your comment on "${data.postTitle}":\n\n${data.excerpt}\n\n${url}`,
+  };
+}
+
+function newPostSection(data: NewPostEmailData, links: EmailLinks): { html: string; text: string } {
+  const url = postUrl(links, data.postSlug);
+  return {
+    html: `<p><strong>${escapeHtml(data.authorName)}</strong> published
+      <a href="${escapeHtml(url)}">${escapeHtml(data.postTitle)}</a></p>
+      <p style="color:#374151">${escapeHtml(data.excerpt)}</p>`,
+    text: `${data.authorName} published "${data.postTitle}"\n\n${data.excerpt}\n\n${url}`,
+  };
+}
+
+function section(item: DigestItem, links: EmailLinks): { html: string; text: string } {
+  return item.template === 'reply'
+    ? replySection(item.data, links)
+    : newPostSection(item.data, links);
+}
+
+/**
+ * Render an outbox entry
+ */
+export function renderEmail(
+  template: EmailTemplate,
+  data: Record<string, unknown>,
+  links: EmailLinks
+): RenderedEmail {
+  let subject: string;
+  let body: { html: string; text: string };
+
+  switch (template) {
+    case 'reply': {
+      const reply = data as unknown as ReplyEmailData;
+      subject = `${reply.actorName} replied to your comment`;
+      body = replySection(reply, links);
+      break;
+    }
+    case 'new-post': {
+      const post = data as unknown as NewPostEmailData;
+      subject = `New post from ${post.authorName}: ${post.postTitle}`;
+      body = newPostSection(post, links);
+      break;
+    }
+    case 'digest': {
+      const { items } = data as unknown as DigestEmailData;
+      const sections = items.map((item) => section(item, links));
+      subject = `Your daily digest: ${items.length} update${items.length === 1 ? '' : 's'}`;
+      body = {
+        html: sections
+          .map((s) => s.html)
+          .join('\n<hr style="border:0;border-top:1px solid #e5e7eb">\n'),
+        text: sections.map((s) => s.text).join('\n\n----\n\n'),
+      };
+      break;
+    }
+  }
+
+  return { subject, html: layout(links, body), text: body.text + textFooter(links) };
+}
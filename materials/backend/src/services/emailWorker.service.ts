@@ -0,0 +1,235 @@
+/**
+ * Email Worker
+ * Delivers queued outbox entries through the configured transport and folds
+ * daily-digest entries into one email per recipient
+ *
+ * Every App tier VM runs this loop. Entries are claimed with a conditional
+ * update (pending -> sending) so each is sent by one instance; a claim that is
+ * not completed before lockedUntil (instance crashed mid-send) is released again.
+ * Delivery is therefore at-least-once.
+ */
+
+import { Types } from 'mongoose';
+import { config } from '../config/environment';
+import { EmailOutbox, IEmailOutbox, User } from '../models';
+import { EmailTransport, getEmailTransport } from './email';
+import { renderEmail } from './email/templates';
+import { createUnsubscribeToken, UnsubscribeCategory } from './email.service';
+import { logger } from '../utils/logger';
+
+// Upper bound per tick so a large backlog doesn't hold one instance for long
+const BATCH_SIZE = 50;
+const DIGEST_USERS_PER_TICK = 100;
+const MAX_DIGEST_ITEMS = 50;
+
+const LOCK_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+const UNSUBSCRIBE_CATEGORY: Record<IEmailOutbox['template'], UnsubscribeCategory> = {
+  reply: 'replies',
+  'new-post': 'newPosts',
+  digest: 'all',
+};
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+function siteUrl(): string {
+  return config.siteUrl ?? config.corsOrigins[0] ?? 'http://localhost:5173';
+}
+
+/**
+ * Release claims whose worker never finished
+ */
+async function releaseExpiredClaims(now: Date): Promise<void> {
+  const result = await EmailOutbox.updateMany(
+    { status: 'sending', lockedUntil: { $lt: now } },
+    { $set: { status: 'pending' }, $unset: { lockedUntil: 1 } }
+  );
+  if (result.modifiedCount > 0) {
+    logger.warn(`Released ${result.modifiedCount} expired email claim(s)`);
+  }
+}
+
+/**
+ * Replace each recipient's due digest entries with a single digest email
+ * @returns Number of digest emails queued
+ */
+export async function buildDigests(now: Date = new Date()): Promise<number> {
+  const due = { status: 'pending', digest: true, nextAttemptAt: { $lte: now } };
+  const userIds = (await EmailOutbox.distinct('user', due)).slice(0, DIGEST_USERS_PER_TICK);
+
+  let built = 0;
+
+  for (const userId of userIds as Types.ObjectId[]) {
+    const entries = await EmailOutbox.find({ ...due, user: userId })
+      .sort({ createdAt: 1 })
+      .limit(MAX_DIGEST_ITEMS)
+      .select('template data')
+      .lean();
+    if (entries.length === 0) continue;
+
+    // Queue the digest before retiring its entries: a crash in between repeats
+    // items in the next digest rather than losing them
+    const digestId = new Types.ObjectId();
+    const items = entries.map((entry) => ({ template: entry.template, data: entry.data }));
+    await EmailOutbox.create({
+      _id: digestId,
+      user: userId,
+      template: 'digest',
+      data: { items },
+      dedupeKey: `digest:${digestId.toString()}`,
+    });
+
+    await EmailOutbox.updateMany(
+      { _id: { $in: entries.map((entry) => entry._id) }, status: 'pending' },
+      { $set: { status: 'batched', completedAt: now } }
+    );
+    built++;
+  }
+
+  return built;
+}
+
+async function deliver(entry: IEmailOutbox): Promise<void> {
+  const user = await User.findById(entry.user).select('email isActive').lean();
+  if (!user || !user.isActive || !user.email) {
+    await EmailOutbox.updateOne(
+      { _id: entry._id },
+      {
+        $set: { status: 'failed', lastError: 'Recipient unavailable', completedAt: new Date() },
+        $unset: { lockedUntil: 1 },
+      }
+    );
+    return;
+  }
+
+  // Rendering errors (bad entry data, missing secret) take the same retry/failed path
+  try {
+    const site = siteUrl();
+    const token = encodeURIComponent(
+      createUnsubscribeToken(entry.user, UNSUBSCRIBE_CATEGORY[entry.template])
+    );
+    const email = renderEmail(entry.template, entry.data, {
+      siteUrl: site,
+      unsubscribeUrl: `${site}/unsubscribe?token=${token}`,
+      preferencesUrl: `${site}/profile`,
+    });
+
+    await getEmailTransport().send({
+      to: user.email,
+      ...email,
+      headers: {
+        // RFC 8058 one-click unsubscribe (mail clients POST to this URL)
+        'List-Unsubscribe': `<${site}/api/email/unsubscribe?token=${token}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    });
+  } catch (error) {
+    const final = entry.attempts >= MAX_ATTEMPTS;
+    const delay = Math.min(RETRY_BASE_MS * 2 ** (entry.attempts - 1), RETRY_MAX_MS);
+    await EmailOutbox.updateOne(
+      { _id: entry._id },
+      {
+        $set: {
+          status: final ? 'failed' : 'pending',
+          lastError: (error instanceof Error ? error.message : String(error)).slice(0, 1000),
+          nextAttemptAt: new Date(Date.now() + delay),
+          ...(final && { completedAt: new Date() }),
+        },
+        $unset: { lockedUntil: 1 },
+      }
+    );
+    logger.warn(`Email ${entry._id} attempt ${entry.attempts} failed:`, error);
+    return;
+  }
+
+  await EmailOutbox.updateOne(
+    { _id: entry._id },
+    { $set: { status: 'sent', completedAt: new Date() }, $unset: { lockedUntil: 1 } }
+  );
+}
+
+/**
+ * Send due emails (one at a time, so a batch shares one SMTP connection)
+ * @returns Number of entries processed by this instance
+ */
+export async function sendDueEmails(now: Date = new Date()): Promise<number> {
+  let processed = 0;
+
+  while (processed < BATCH_SIZE) {
+    const entry = await EmailOutbox.findOneAndUpdate(
+      { status: 'pending', digest: false, nextAttemptAt: { $lte: now } },
+      {
+        $set: { status: 'sending', lockedUntil: new Date(Date.now() + LOCK_MS) },
+        $inc: { attempts: 1 },
+      },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+    if (!entry) break;
+
+    await deliver(entry);
+    processed++;
+  }
+
+  return processed;
+}
+
+async function tick(): Promise<void> {
+  // Skip if the previous run is still going (slow mail server)
+  if (running) return;
+  running = true;
+  try {
+    const now = new Date();
+    await releaseExpiredClaims(now);
+    await buildDigests(now);
+    await sendDueEmails(now);
+  } catch (error) {
+    logger.error('Email worker run failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the email worker (no-op unless EMAIL_ENABLED is set)
+ */
+export function startEmailWorker(): void {
+  if (timer || !config.email.enabled) return;
+
+  if (!config.email.unsubscribeSecret) {
+    logger.error('Email worker not started: EMAIL_UNSUBSCRIBE_SECRET is required');
+    return;
+  }
+
+  // Surface transport misconfiguration (e.g. SMTP_HOST missing) at startup
+  // rather than on the first send; the API itself keeps running
+  let transport: EmailTransport;
+  try {
+    transport = getEmailTransport();
+  } catch (error) {
+    logger.error('Email worker not started:', error);
+    return;
+  }
+
+  timer = setInterval(tick, config.email.workerIntervalMs);
+  // Don't keep the process alive just for the worker
+  timer.unref();
+  void tick();
+
+  logger.info(
+    `Email worker started (${transport.name} transport, every ${config.email.workerIntervalMs} ms)`
+  );
+}
+
+/**
+ * Stop the email worker (graceful shutdown)
+ */
+export function stopEmailWorker(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
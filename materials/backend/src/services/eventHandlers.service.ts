@@ -0,0 +1,105 @@
+/**
+ * Event Handlers
+ * Side effects of domain events: notifications, emails and webhooks
+ *
+ * New side effects (search indexing, audit logging, ...) subscribe here instead
+ * of being added to the routes that publish the events.
+ */
+
+import { Comment, Post } from '../models';
+import { queueNewPostEmails, queueReplyEmail } from './email.service';
+import { subscribe } from './events.service';
+import { notifyComment, notifyFollow, notifyReaction } from './notifications.service';
+import {
+  queueCommentDeletedEvent,
+  queueCommentEvent,
+  queuePostDeletedEvent,
+  queuePostEvent,
+} from './webhooks.service';
+
+let registered = false;
+
+/**
+ * Subscribe all handlers (once per process)
+ */
+export function registerEventHandlers(): void {
+  if (registered) return;
+  registered = true;
+
+  // Notifications
+
+  subscribe('comment.created', 'notifications.comment', async (event) => {
+    await notifyComment({
+      _id: event.commentId,
+      author: event.authorId,
+      post: { _id: event.postId, author: event.postAuthorId },
+      parentAuthor: event.parentAuthorId,
+    });
+  });
+
+  subscribe('reaction.created', 'notifications.reaction', async (event) => {
+    await notifyReaction({
+      actor: event.actorId,
+      recipient: event.recipientId,
+      targetType: event.targetType,
+      postId: event.postId,
+      commentId: event.commentId,
+      type: event.type,
+    });
+  });
+
+  subscribe('user.followed', 'notifications.follow', async ({ followerId, followeeId }) => {
+    await notifyFollow(followerId, followeeId);
+  });
+
+  // Emails
+
+  subscribe('post.published', 'email.newPost', async ({ postId }) => {
+    const post = await Post.findOne({ _id: postId, status: 'published' })
+      .select('title slug excerpt contentHtml author')
+      .lean();
+    if (post) await queueNewPostEmails(post);
+  });
+
+  subscribe('comment.created', 'email.reply', async (event) => {
+    if (!event.parentAuthorId) return;
+
+    const comment = await Comment.findById(event.commentId)
+      .select('content post')
+      .populate<{ post: { title: string; slug: string } | null }>('post', 'title slug')
+      .lean();
+    if (!comment?.post) return;
+
+    await queueReplyEmail({
+      commentId: event.commentId,
+      content: comment.content,
+      recipient: event.parentAuthorId,
+      actor: event.authorId,
+      post: comment.post,
+    });
+  });
+
+  // Webhooks
+
+  subscribe('post.created', 'webhooks.postCreated', async ({ postId }) => {
+    await queuePostEvent('post.created', postId);
+  });
+  subscribe('post.updated', 'webhooks.postUpdated', async ({ postId }) => {
+    await queuePostEvent('post.updated', postId);
+  });
+  subscribe('post.published', 'webhooks.postPublished', async ({ postId }) => {
+    await queuePostEvent('post.published', postId);
+  });
+  subscribe('post.deleted', 'webhooks.postDeleted', async ({ postId, slug, title }) => {
+    await queuePostDeletedEvent({ _id: postId, slug, title });
+  });
+  subscribe('comment.created', 'webhooks.commentCreated', async ({ commentId }) => {
+    await queueCommentEvent('comment.created', commentId);
+  });
+  subscribe('comment.updated', 'webhooks.commentUpdated', async ({ commentId }) => {
+    await queueCommentEvent('comment.updated', commentId);
+  });
+  subscribe('comment.deleted', 'webhooks.commentDeleted', async ({ commentId, postId }) => {
+    await queueCommentDeletedEvent({ _id: commentId, post: postId });
+  });
+}
@@ -0,0 +1,297 @@
+/**
+ * Domain Events
+ * Typed in-process event bus: routes publish what happened, subscribers
+ * (notifications, emails, webhooks, ...) react without the routes knowing them
+ *
+ * By default handlers run in this process right after publishEvent(), and a
+ * failing handler is logged and forgotten - the same guarantee as calling it
+ * fire-and-forget from the route. With EVENT_OUTBOX_ENABLED the event is first
+ * written to the eventOutbox collection and a relay on every App tier VM runs the
+ * handlers, retrying each failed handler with backoff. Handlers then survive
+ * restarts and run at least once, possibly on another VM; a relay that stops
+ * mid-dispatch repeats them.
+ *
+ * Only events published inside runInTransaction() are tied to the write: they are
+ * stored (outbox) or handled (in-process) once the transaction commits, and never
+ * for a write that was rolled back. Other events can be lost if the process stops
+ * between the write and publishEvent().
+ */
+
+import mongoose, { ClientSession, Types } from 'mongoose';
+import { config } from '../config/environment';
+import { EventOutbox, IEventOutbox, IPost, ReactionTargetType, ReactionType } from '../models';
+import { logger } from '../utils/logger';
+
+/**
+ * Event names and payloads
+ * Payloads carry ids (handlers load what they need) plus whatever no longer
+ * exists once the event is handled, such as a deleted post's slug.
+ */
+export interface DomainEvents {
+  'post.created': { postId: Types.ObjectId; authorId: Types.ObjectId; status: IPost['status'] };
+  'post.updated': { postId: Types.ObjectId; status: IPost['status'] };
+  'post.published': { postId: Types.ObjectId; authorId: Types.ObjectId };
+  'post.deleted': { postId: Types.ObjectId; slug: string; title: string };
+  'comment.created': {
+    commentId: Types.ObjectId;
+    postId: Types.ObjectId;
+    authorId: Types.ObjectId;
+    postAuthorId: Types.ObjectId;
+    parentAuthorId?: Types.ObjectId; // Set for replies
+  };
+  'comment.updated': { commentId: Types.ObjectId };
+  'comment.deleted': { commentId: Types.ObjectId; postId: Types.ObjectId };
+  'reaction.created': {
+    targetType: ReactionTargetType;
+    type: ReactionType;
+    actorId: Types.ObjectId;
+    recipientId: Types.ObjectId; // Author of the post or comment
+    postId: Types.ObjectId;
+    commentId?: Types.ObjectId; // Set for comment reactions
+  };
+  'user.followed': { followerId: Types.ObjectId; followeeId: Types.ObjectId };
+  'user.provisioned': { userId: Types.ObjectId; oid: string };
+}
+
+export type DomainEventName = keyof DomainEvents;
+
+export interface EventContext {
+  id: Types.ObjectId; // Same across retries; usable as an idempotency key
+  name: DomainEventName;
+  occurredAt: Date;
+}
+
+export type EventHandler<E extends DomainEventName> = (
+  payload: DomainEvents[E],
+  context: EventContext
+) => Promise<void>;
+
+interface Subscription {
+  name: string;
+  event: DomainEventName;
+  handler: EventHandler<never>;
+}
+
+// Upper bound per relay tick so a large backlog doesn't hold one instance for long
+const BATCH_SIZE = 100;
+
+const LOCK_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 5 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+const subscriptions: Subscription[] = [];
+
+// Work to run once a runInTransaction() transaction commits, per session
+const afterCommit = new WeakMap<ClientSession, (() => void)[]>();
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+/**
+ * Register a handler for an event
+ * @param name Unique handler name; the outbox records which handlers completed by name
+ */
+export function subscribe<E extends DomainEventName>(
+  event: E,
+  name: string,
+  handler: EventHandler<E>
+): void {
+  if (subscriptions.some((subscription) => subscription.name === name)) {
+    throw new Error(`Event handler already registered: ${name}`);
+  }
+  subscriptions.push({ name, event, handler: handler as EventHandler<never> });
+}
+
+/**
+ * Run the event's handlers, skipping those that already completed
+ * A failing handler doesn't stop the others.
+ */
+async function dispatch(
+  context: EventContext,
+  payload: unknown,
+  completed: string[] = []
+): Promise<{ succeeded: string[]; failed: { name: string; error: unknown }[] }> {
+  const pending = subscriptions.filter(
+    (subscription) => subscription.event === context.name && !completed.includes(subscription.name)
+  );
+
+  const results = await Promise.allSettled(
+    pending.map((subscription) => subscription.handler(payload as never, context))
+  );
+
+  const succeeded: string[] = [];
+  const failed: { name: string; error: unknown }[] = [];
+  results.forEach((result, i) => {
+    const name = pending[i]!.name;
+    if (result.status === 'fulfilled') {
+      succeeded.push(name);
+    } else {
+      failed.push({ name, error: result.reason });
+      logger.error(`Event handler ${name} failed for ${context.name}:`, result.reason);
+    }
+  });
+
+  return { succeeded, failed };
+}
+
+/**
+ * Run writes and the events they publish in one MongoDB transaction
+ * Pass the session to every write and to publishEvent(). The driver may call
+ * `fn` again on transient errors; only the events of the committed attempt count.
+ */
+export async function runInTransaction<T>(fn: (session: ClientSession) => Promise<T>): Promise<T> {
+  let committed: (() => void)[] = [];
+  // connection.transaction() also resets saved documents when an attempt is retried
+  const result = await mongoose.connection.transaction(async (session) => {
+    committed = [];
+    afterCommit.set(session, committed);
+    return fn(session);
+  });
+  committed.forEach((run) => run());
+  return result;
+}
+
+/**
+ * Publish an event
+ * Resolves once the event is recorded (outbox) or handed to the handlers
+ * (in-process); it never waits for the handlers themselves.
+ * @param options.session Session from runInTransaction(): the outbox entry is written
+ *   in the transaction and in-process handlers wait for the commit
+ */
+export async function publishEvent<E extends DomainEventName>(
+  name: E,
+  payload: DomainEvents[E],
+  options: { session?: ClientSession } = {}
+): Promise<void> {
+  const context: EventContext = { id: new Types.ObjectId(), name, occurredAt: new Date() };
+  const pending = options.session ? afterCommit.get(options.session) : undefined;
+  const whenCommitted = (run: () => void): void => {
+    if (pending) pending.push(run);
+    else run();
+  };
+
+  if (config.events.outboxEnabled) {
+    try {
+      await EventOutbox.create(
+        [{ _id: context.id, name, payload, occurredAt: context.occurredAt }],
+        { session: options.session }
+      );
+      // The event is visible once committed: don't wait for the next tick
+      whenCommitted(() => setImmediate(() => void tick()));
+      return;
+    } catch (error) {
+      // Inside a transaction the caller must see the failure and abort
+      if (options.session) throw error;
+      logger.error(`Failed to write ${name} to the event outbox, handling in-process:`, error);
+    }
+  }
+
+  whenCommitted(() =>
+    setImmediate(() => {
+      void dispatch(context, payload);
+    })
+  );
+}
+
+// ============================================================================
+// Outbox relay
+// ============================================================================
+
+async function relay(entry: IEventOutbox): Promise<void> {
+  const context: EventContext = {
+    id: entry._id as Types.ObjectId,
+    name: entry.name as DomainEventName,
+    occurredAt: entry.occurredAt,
+  };
+  const { succeeded, failed } = await dispatch(context, entry.payload, entry.completedHandlers);
+
+  const done = failed.length === 0;
+  const final = done || entry.attempts >= MAX_ATTEMPTS;
+  const delay = Math.min(RETRY_BASE_MS * 2 ** (entry.attempts - 1), RETRY_MAX_MS);
+  const lastError = failed
+    .map(({ name, error }) => `${name}: ${error instanceof Error ? error.message : String(error)}`)
+    .join('; ')
+    .slice(0, 1000);
+
+  await EventOutbox.updateOne(
+    { _id: entry._id },
+    {
+      $set: {
+        status: done ? 'done' : final ? 'failed' : 'pending',
+        ...(lastError && { lastError }),
+        ...(final ? { completedAt: new Date() } : { nextAttemptAt: new Date(Date.now() + delay) }),
+      },
+      $addToSet: { completedHandlers: { $each: succeeded } },
+      $unset: { lockedUntil: 1 },
+    }
+  );
+}
+
+/**
+ * Run handlers for due outbox events
+ * @returns Number of events processed by this instance
+ */
+export async function relayDueEvents(now: Date = new Date()): Promise<number> {
+  // Release claims whose relay never finished
+  await EventOutbox.updateMany(
+    { status: 'processing', lockedUntil: { $lt: now } },
+    { $set: { status: 'pending' }, $unset: { lockedUntil: 1 } }
+  );
+
+  let processed = 0;
+
+  while (processed < BATCH_SIZE) {
+    const entry = await EventOutbox.findOneAndUpdate(
+      { status: 'pending', nextAttemptAt: { $lte: new Date() } },
+      {
+        $set: { status: 'processing', lockedUntil: new Date(Date.now() + LOCK_MS) },
+        $inc: { attempts: 1 },
+      },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+    if (!entry) break;
+
+    await relay(entry);
+    processed++;
+  }
+
+  return processed;
+}
+
+async function tick(): Promise<void> {
+  // Skip if the previous run is still going (publishEvent also triggers runs)
+  if (running) return;
+  running = true;
+  try {
+    await relayDueEvents();
+  } catch (error) {
+    logger.error('Event relay run failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the outbox relay (no-op unless EVENT_OUTBOX_ENABLED is set)
+ */
+export function startEventRelay(): void {
+  if (timer || !config.events.outboxEnabled || config.events.relayIntervalMs <= 0) return;
+
+  timer = setInterval(tick, config.events.relayIntervalMs);
+  // Don't keep the process alive just for the relay
+  timer.unref();
+  void tick();
+
+  logger.info(`Event outbox relay started (every ${config.events.relayIntervalMs} ms)`);
+}
+
+/**
+ * Stop the outbox relay (graceful shutdown)
+ */
+export function stopEventRelay(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
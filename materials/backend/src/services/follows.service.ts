@@ -0,0 +1,63 @@
+/**
+ * Follows Service
+ * Follow relationships between users and the lookups behind profiles and the feed
+ */
+
+import { Types } from 'mongoose';
+import { ApiError } from '../middleware/error.middleware';
+import { Follow } from '../models';
+
+export interface FollowCounts {
+  followerCount: number;
+  followingCount: number;
+}
+
+export async function getFollowCounts(userId: Types.ObjectId): Promise<FollowCounts> {
+  const [followerCount, followingCount] = await Promise.all([
+    Follow.countDocuments({ followee: userId }),
+    Follow.countDocuments({ follower: userId }),
+  ]);
+  return { followerCount, followingCount };
+}
+
+export async function isFollowing(
+  followerId: Types.ObjectId,
+  followeeId: Types.ObjectId
+): Promise<boolean> {
+  return (await Follow.exists({ follower: followerId, followee: followeeId })) !== null;
+}
+
+/**
+ * Authors a user follows (the feed's author filter)
+ */
+export async function getFolloweeIds(followerId: Types.ObjectId): Promise<Types.ObjectId[]> {
+  return Follow.find({ follower: followerId }).distinct('followee');
+}
+
+/**
+ * Follow an author (idempotent)
+ */
+export async function follow(
+  followerId: Types.ObjectId,
+  followeeId: Types.ObjectId
+): Promise<void> {
+  if (followerId.equals(followeeId)) {
+    throw ApiError.badRequest('You cannot follow yourself');
+  }
+
+  await Follow.updateOne(
+    { follower: followerId, followee: followeeId },
+    { $setOnInsert: { follower: followerId, followee: followeeId } },
+    { upsert: true }
+  );
+}
+
+/**
+ * Stop following an author (idempotent)
+ */
+export async function unfollow(
+  followerId: Types.ObjectId,
+  followeeId: Types.ObjectId
+): Promise<void> {
+  await Follow.deleteOne({ follower: followerId, followee: followeeId });
+}
@@ -0,0 +1,148 @@
+/**
+ * Media Service
+ * Image validation, thumbnail generation and usage tracking for uploads
+ */
+
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import { Types } from 'mongoose';
+import { ApiError } from '../middleware/error.middleware';
+import { IMedia, Media } from '../models';
+import { logger } from '../utils/logger';
+import { getStorageDriver, LOCAL_MEDIA_ROUTE } from './storage';
+
+// Formats detected from the file contents (not the client-supplied MIME type)
+const ALLOWED_FORMATS: Record<string, { contentType: string; extension: string }> = {
+  jpeg: { contentType: 'image/jpeg', extension: 'jpg' },
+  png: { contentType: 'image/png', extension: 'png' },
+  webp: { contentType: 'image/webp', extension: 'webp' },
+  gif: { contentType: 'image/gif', extension: 'gif' },
+};
+
+const MAX_DIMENSION = 8000;
+const THUMBNAIL_WIDTH = 400;
+const THUMBNAIL_HEIGHT = 300;
+
+export interface UploadedFile {
+  buffer: Buffer;
+  originalname: string;
+}
+
+/**
+ * Validate an uploaded image, store it with a thumbnail and record it
+ */
+export async function createMedia(file: UploadedFile, ownerId: Types.ObjectId): Promise<IMedia> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(file.buffer).metadata();
+  } catch {
+    throw ApiError.badRequest('File is not a valid image');
+  }
+
+  const format = metadata.format ? ALLOWED_FORMATS[metadata.format] : undefined;
+  if (!format || !metadata.width || !metadata.height) {
+    throw ApiError.badRequest('Unsupported image type. Allowed: JPEG, PNG, WebP, GIF');
+  }
+
+  if (metadata.width > MAX_DIMENSION || metadata.height > MAX_DIMENSION) {
+    throw ApiError.badRequest(`Image dimensions must not exceed ${MAX_DIMENSION}px`);
+  }
+
+  // Re-encode still images to apply EXIF orientation and drop metadata (e.g. GPS);
+  // GIFs are kept as-is to preserve animation
+  const original =
+    metadata.format === 'gif' ? file.buffer : await sharp(file.buffer).rotate().toBuffer();
+  const thumbnail = await sharp(file.buffer)
+    .rotate()
+    .resize({ width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT, fit: 'cover' })
+    .webp({ quality: 80 })
+    .toBuffer();
+
+  const id = randomUUID();
+  const key = `${id}.${format.extension}`;
+  const thumbnailKey = `${id}-thumb.webp`;
+  const storage = getStorageDriver();
+
+  const [url, thumbnailUrl] = await Promise.all([
+    storage.put(key, original, format.contentType),
+    storage.put(thumbnailKey, thumbnail, 'image/webp'),
+  ]);
+
+  try {
+    return await Media.create({
+      owner: ownerId,
+      storageDriver: storage.name,
+      key,
+      url,
+      thumbnailKey,
+      thumbnailUrl,
+      originalName: file.originalname.substring(0, 255),
+      contentType: format.contentType,
+      size: original.length,
+      width: metadata.width,
+      height: metadata.height,
+    });
+  } catch (error) {
+    // Don't leave orphaned files behind
+    await Promise.all([storage.delete(key), storage.delete(thumbnailKey)]).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Remove a media item's files and record
+ */
+export async function deleteMedia(media: IMedia): Promise<void> {
+  const storage = getStorageDriver();
+  if (storage.name !== media.storageDriver) {
+    logger.warn('Media stored with a different driver; files not removed:', {
+      mediaId: media._id,
+      storageDriver: media.storageDriver,
+    });
+  } else {
+    await Promise.all([storage.delete(media.key), storage.delete(media.thumbnailKey)]);
+  }
+  await Media.deleteOne({ _id: media._id });
+}
+
+/**
+ * Record which media item (if any) a post uses as its featured image.
+ * Only the post author's own uploads are marked; anyone else's media stays
+ * deletable by its owner.
+ */
+export async function syncMediaUsage(
+  postId: Types.ObjectId,
+  owner: Types.ObjectId,
+  featuredImageUrl?: string
+): Promise<void> {
+  await Media.updateMany(
+    { usedBy: postId, url: { $ne: featuredImageUrl } },
+    { $pull: { usedBy: postId } }
+  );
+  if (featuredImageUrl) {
+    await Media.updateOne({ url: featuredImageUrl, owner }, { $addToSet: { usedBy: postId } });
+  }
+}
+
+/**
+ * Release all media used by a post (on delete)
+ */
+export async function releaseMediaUsage(postId: Types.ObjectId): Promise<void> {
+  await Media.updateMany({ usedBy: postId }, { $pull: { usedBy: postId } });
+}
+
+/**
+ * Validator for featuredImageUrl: absolute URLs, or files served by the local driver
+ */
+export function isImageUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  if (value.startsWith(`${LOCAL_MEDIA_ROUTE}/`)) {
+    return /^[\w-]+\.\w+$/.test(value.slice(LOCAL_MEDIA_ROUTE.length + 1));
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
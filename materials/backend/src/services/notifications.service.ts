@@ -0,0 +1,136 @@
+/**
+ * Notifications Service
+ * Creates notifications from comment, reply, reaction and follow events and
+ * tracks their read state
+ */
+
+import { Types } from 'mongoose';
+import { Notification, ReactionTargetType, ReactionType } from '../models';
+
+interface NotificationComment {
+  _id: unknown;
+  content?: string;
+  isDeleted?: boolean;
+  isHidden?: boolean;
+}
+
+/**
+ * Notify the post author about a new top-level comment, or the parent comment's
+ * author about a reply (and the post author too, unless they wrote the parent)
+ * Upserted per recipient, so a redelivered comment.created event adds nothing.
+ */
+export async function notifyComment(comment: {
+  _id: Types.ObjectId;
+  author: Types.ObjectId;
+  post: { _id: Types.ObjectId; author: Types.ObjectId };
+  parentAuthor?: Types.ObjectId;
+}): Promise<void> {
+  const base = { actor: comment.author, post: comment.post._id, comment: comment._id };
+  const notifications = [];
+
+  if (comment.parentAuthor && !comment.parentAuthor.equals(comment.author)) {
+    notifications.push({ ...base, recipient: comment.parentAuthor, type: 'reply' });
+  }
+  if (
+    !comment.post.author.equals(comment.author) &&
+    !comment.parentAuthor?.equals(comment.post.author)
+  ) {
+    notifications.push({ ...base, recipient: comment.post.author, type: 'comment' });
+  }
+
+  await Promise.all(
+    notifications.map((notification) => {
+      const key = {
+        recipient: notification.recipient,
+        type: notification.type,
+        comment: base.comment,
+      };
+      return Notification.updateOne(key, { $setOnInsert: notification }, { upsert: true });
+    })
+  );
+}
+
+/**
+ * Notify the author of a post or comment about a new reaction
+ * A user toggling the same reaction repeatedly produces a single notification.
+ */
+export async function notifyReaction(reaction: {
+  actor: Types.ObjectId;
+  recipient: Types.ObjectId;
+  targetType: ReactionTargetType;
+  postId: Types.ObjectId;
+  commentId?: Types.ObjectId;
+  type: ReactionType;
+}): Promise<void> {
+  if (reaction.actor.equals(reaction.recipient)) return;
+
+  const key = {
+    recipient: reaction.recipient,
+    actor: reaction.actor,
+    type: 'reaction',
+    post: reaction.postId,
+    comment: reaction.targetType === 'comment' ? reaction.commentId : null,
+    reactionType: reaction.type,
+  };
+  await Notification.updateOne(key, { $setOnInsert: key }, { upsert: true });
+}
+
+/**
+ * Notify a user about a new follower (once per follower)
+ */
+export async function notifyFollow(
+  followerId: Types.ObjectId,
+  followeeId: Types.ObjectId
+): Promise<void> {
+  const key = { recipient: followeeId, actor: followerId, type: 'follow' };
+  await Notification.updateOne(key, { $setOnInsert: key }, { upsert: true });
+}
+
+/**
+ * Populate lean notifications for the client (listing and event stream)
+ * Comments removed since the notification was created keep the link but not the text.
+ */
+export async function presentNotifications<T extends object>(
+  notifications: T[]
+): Promise<Record<string, unknown>[]> {
+  await Notification.populate(notifications, [
+    { path: 'actor', select: 'displayName username avatarUrl' },
+    { path: 'post', select: 'title slug' },
+    { path: 'comment', select: 'content isDeleted isHidden' },
+  ]);
+
+  return notifications.map((notification) => {
+    const comment = (notification as { comment?: NotificationComment | null }).comment;
+    if (!comment) return notification as Record<string, unknown>;
+    return {
+      ...notification,
+      comment: {
+        _id: comment._id,
+        content: comment.isDeleted || comment.isHidden ? undefined : comment.content,
+      },
+    };
+  });
+}
+
+export async function getUnreadCount(userId: Types.ObjectId): Promise<number> {
+  return Notification.countDocuments({ recipient: userId, readAt: null });
+}
+
+/**
+ * Mark one of the user's notifications as read, or all of them when no id is given
+ * @returns the remaining unread count
+ */
+export async function markRead(userId: Types.ObjectId, notificationId?: string): Promise<number> {
+  const filter = notificationId
+    ? { _id: notificationId, recipient: userId, readAt: null }
+    : { recipient: userId, readAt: null };
+  await Notification.updateMany(filter, { $set: { readAt: new Date() } });
+  return getUnreadCount(userId);
+}
+
+/**
+ * Remove notifications about a deleted post
+ */
+export async function deleteNotifications(postId: Types.ObjectId): Promise<void> {
+  await Notification.deleteMany({ post: postId });
+}
@@ -0,0 +1,63 @@
+/**
+ * Posts Service
+ * Post lifecycle operations shared by author and admin routes
+ */
+
+import { FilterQuery, Types } from 'mongoose';
+import { Comment, IPost, PostRevision, User } from '../models';
+import { deleteBookmarks } from './bookmarks.service';
+import { releaseMediaUsage } from './media.service';
+import { deleteNotifications } from './notifications.service';
+import { deleteReactions } from './reactions.service';
+import { resolveUsernameRedirect } from './users.service';
+import { deleteViews } from './views.service';
+
+export interface PublishedPostsOptions {
+  tag?: string;
+  author?: string; // username
+}
+
+/**
+ * Build the filter for public post listings (GET /api/posts and the feeds)
+ * @returns null when the author doesn't exist (the listing is empty)
+ */
+export async function buildPublishedPostsFilter(
+  options: PublishedPostsOptions
+): Promise<FilterQuery<IPost> | null> {
+  const filter: FilterQuery<IPost> = { status: 'published' };
+
+  if (options.tag) {
+    filter.tags = options.tag.toLowerCase();
+  }
+
+  if (options.author) {
+    let author = await User.exists({ username: options.author });
+    if (!author) {
+      // Previous usernames still find the author's posts
+      const current = await resolveUsernameRedirect(options.author);
+      author = current ? await User.exists({ username: current }) : null;
+    }
+    if (!author) return null;
+    filter.author = author._id;
+  }
+
+  return filter;
+}
+
+/**
+ * Delete the data that only exists for a post, once the post itself is deleted
+ */
+export async function deletePostDependents(postId: Types.ObjectId): Promise<void> {
+  const commentIds: Types.ObjectId[] = await Comment.find({ post: postId }).distinct('_id');
+
+  await Promise.all([
+    PostRevision.deleteMany({ post: postId }),
+    Comment.deleteMany({ post: postId }),
+    deleteReactions('post', [postId]),
+    deleteReactions('comment', commentIds),
+    deleteViews(postId),
+    deleteBookmarks(postId),
+    deleteNotifications(postId),
+    releaseMediaUsage(postId),
+  ]);
+}
@@ -0,0 +1,168 @@
+/**
+ * Provisioning Service
+ * Find-or-create the local user record for an authenticated Entra ID identity
+ */
+
+import { randomBytes } from 'crypto';
+import { AuthenticatedUser } from '../middleware/auth.middleware';
+import { ApiError } from '../middleware/error.middleware';
+import { IUser, User } from '../models';
+import { logger, sanitizeEmail } from '../utils/logger';
+import { sanitizePlain } from '../utils/sanitize';
+import { publishEvent } from './events.service';
+import {
+  checkUsernameAvailability,
+  normalizeUsername,
+  USERNAME_MAX_LENGTH,
+  USERNAME_MIN_LENGTH,
+} from './users.service';
+
+// lastLoginAt is refreshed at most this often so that every API call is not a write
+const LAST_LOGIN_RESOLUTION_MS = 5 * 60 * 1000;
+
+// Numbered candidates (john2, john3, ...) tried before falling back to a random suffix
+const MAX_NUMBERED_CANDIDATES = 5;
+const MAX_CREATE_ATTEMPTS = 3;
+
+interface DuplicateKeyError {
+  code?: number;
+  keyPattern?: Record<string, unknown>;
+}
+
+function duplicateKeyField(error: unknown): string | null {
+  const { code, keyPattern } = error as DuplicateKeyError;
+  if (code !== 11000) return null;
+  return Object.keys(keyPattern ?? {})[0] ?? 'unknown';
+}
+
+function displayNameFromClaims(claims: AuthenticatedUser): string {
+  return sanitizePlain(claims.name).trim().slice(0, 100);
+}
+
+/**
+ * Username base derived from the token: email local part, then the sign-in name
+ */
+function usernameBase(claims: AuthenticatedUser): string {
+  const source = claims.email || claims.preferredUsername || claims.name;
+  const base = normalizeUsername(source.split('@')[0] ?? '')
+    .replace(/[^a-z0-9_-]/g, '')
+    .slice(0, USERNAME_MAX_LENGTH);
+
+  return base.length >= USERNAME_MIN_LENGTH ? base : `user${base}`;
+}
+
+function withSuffix(base: string, suffix: string): string {
+  return `${base.slice(0, USERNAME_MAX_LENGTH - suffix.length)}${suffix}`;
+}
+
+/**
+ * First unclaimed username for a base (reserved names and redirects count as claimed)
+ * Availability can still change before the insert; createUser retries on collisions.
+ */
+async function generateUsername(base: string): Promise<string> {
+  for (let attempt = 1; attempt <= MAX_NUMBERED_CANDIDATES; attempt++) {
+    const candidate = attempt === 1 ? base : withSuffix(base, String(attempt));
+    const { available } = await checkUsernameAvailability(candidate);
+    if (available) return candidate;
+  }
+
+  return withSuffix(base, `-${randomBytes(3).toString('hex')}`);
+}
+
+async function createUser(claims: AuthenticatedUser): Promise<IUser> {
+  const base = usernameBase(claims);
+
+  for (let attempt = 1; ; attempt++) {
+    const username = await generateUsername(base);
+    try {
+      const user = await User.create({
+        oid: claims.oid,
+        email: claims.email,
+        displayName: displayNameFromClaims(claims) || username,
+        username,
+        lastLoginAt: new Date(),
+      });
+      logger.info('New user created:', {
+        oid: claims.oid,
+        username,
+        email: sanitizeEmail(claims.email),
+      });
+      await publishEvent('user.provisioned', { userId: user._id, oid: user.oid });
+      return user;
+    } catch (error) {
+      const field = duplicateKeyField(error);
+
+      // Concurrent first request for the same identity created it first
+      if (field === 'oid') {
+        const existing = await User.findOne({ oid: claims.oid });
+        if (existing) return existing;
+      }
+      // Another new user took the same username between the check and the insert
+      if (field === 'username' && attempt < MAX_CREATE_ATTEMPTS) {
+        continue;
+      }
+      if (field === 'email') {
+        logger.warn('User provisioning email conflict:', {
+          oid: claims.oid,
+          email: sanitizeEmail(claims.email),
+        });
+        throw ApiError.conflict('Another account is already registered with this email');
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Bring an existing user in line with fresh token claims
+ * displayName is only synced until the user edits it on their profile.
+ */
+async function syncUser(user: IUser, claims: AuthenticatedUser): Promise<IUser> {
+  const now = new Date();
+  const updates: Partial<Pick<IUser, 'email' | 'displayName' | 'lastLoginAt'>> = {};
+
+  const email = claims.email.toLowerCase().trim();
+  if (email && email !== user.email) {
+    updates.email = email;
+  }
+  const displayName = displayNameFromClaims(claims);
+  if (!user.displayNameCustomized && displayName && displayName !== user.displayName) {
+    updates.displayName = displayName;
+  }
+  if (!user.lastLoginAt || now.getTime() - user.lastLoginAt.getTime() > LAST_LOGIN_RESOLUTION_MS) {
+    updates.lastLoginAt = now;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return user;
+  }
+
+  try {
+    await User.updateOne({ _id: user._id }, { $set: updates });
+  } catch (error) {
+    if (duplicateKeyField(error) !== 'email') throw error;
+
+    // The new email still belongs to another (stale) account; keep the old one
+    logger.warn('User email sync skipped, email in use:', {
+      oid: claims.oid,
+      email: sanitizeEmail(email),
+    });
+    delete updates.email;
+    if (Object.keys(updates).length > 0) {
+      await User.updateOne({ _id: user._id }, { $set: updates });
+    }
+  }
+
+  user.set(updates);
+  return user;
+}
+
+/**
+ * Get the user for an authenticated request, creating it on first sign-in
+ * Safe to call concurrently for the same identity.
+ * @throws ApiError 409 if the email is already registered to a different identity
+ */
+export async function provisionUser(claims: AuthenticatedUser): Promise<IUser> {
+  const user = await User.findOne({ oid: claims.oid });
+  return user ? syncUser(user, claims) : createUser(claims);
+}
@@ -0,0 +1,133 @@
+/**
+ * Reactions Service
+ * Emoji reaction toggling and per-target summaries for API responses
+ */
+
+import { Types } from 'mongoose';
+import { Reaction, ReactionTargetType, ReactionType } from '../models';
+
+/**
+ * Reactions as returned with posts and comments
+ * `counts` only lists types with at least one reaction; `reactedByMe` is
+ * empty for anonymous requests
+ */
+export interface ReactionSummary {
+  counts: Partial<Record<ReactionType, number>>;
+  reactedByMe: ReactionType[];
+}
+
+interface ReactionCountGroup {
+  _id: { target: Types.ObjectId; type: ReactionType };
+  count: number;
+}
+
+function emptySummary(): ReactionSummary {
+  return { counts: {}, reactedByMe: [] };
+}
+
+/**
+ * Reaction summaries for many targets in two queries, keyed by target id
+ */
+export async function getReactionSummaries(
+  targetType: ReactionTargetType,
+  targetIds: Types.ObjectId[],
+  viewerId?: Types.ObjectId
+): Promise<Map<string, ReactionSummary>> {
+  const summaries = new Map<string, ReactionSummary>(
+    targetIds.map((id) => [id.toString(), emptySummary()])
+  );
+  if (targetIds.length === 0) {
+    return summaries;
+  }
+
+  const [groups, mine] = await Promise.all([
+    Reaction.aggregate<ReactionCountGroup>([
+      { $match: { targetType, target: { $in: targetIds } } },
+      { $group: { _id: { target: '$target', type: '$type' }, count: { $sum: 1 } } },
+    ]),
+    viewerId
+      ? Reaction.find({ targetType, target: { $in: targetIds }, user: viewerId })
+          .select('target type')
+          .lean()
+      : Promise.resolve([]),
+  ]);
+
+  for (const group of groups) {
+    const summary = summaries.get(group._id.target.toString());
+    if (summary) summary.counts[group._id.type] = group.count;
+  }
+  for (const reaction of mine) {
+    summaries.get(reaction.target.toString())?.reactedByMe.push(reaction.type);
+  }
+
+  return summaries;
+}
+
+/**
+ * Set `reactions` on each document (and on nested `replies`, for comment trees)
+ */
+export async function attachReactions<T extends { _id: Types.ObjectId; replies?: unknown[] }>(
+  docs: T[],
+  targetType: ReactionTargetType,
+  viewerId?: Types.ObjectId
+): Promise<(T & { reactions: ReactionSummary })[]> {
+  const all: T[] = [];
+  const collect = (items: T[]): void => {
+    for (const item of items) {
+      all.push(item);
+      if (item.replies) collect(item.replies as T[]);
+    }
+  };
+  collect(docs);
+
+  const summaries = await getReactionSummaries(
+    targetType,
+    all.map((doc) => doc._id),
+    viewerId
+  );
+  for (const doc of all) {
+    (doc as T & { reactions: ReactionSummary }).reactions =
+      summaries.get(doc._id.toString()) ?? emptySummary();
+  }
+
+  return docs as (T & { reactions: ReactionSummary })[];
+}
+
+/**
+ * Add the user's reaction of this type, or remove it if present
+ * Concurrent toggles by the same user settle on the unique index.
+ */
+export async function toggleReaction(
+  targetType: ReactionTargetType,
+  targetId: Types.ObjectId,
+  userId: Types.ObjectId,
+  type: ReactionType
+): Promise<{ reacted: boolean; reactions: ReactionSummary }> {
+  const key = { targetType, target: targetId, user: userId, type };
+
+  const { deletedCount } = await Reaction.deleteOne(key);
+  let reacted = false;
+  if (deletedCount === 0) {
+    try {
+      await Reaction.create(key);
+    } catch (error) {
+      // A parallel request from the same user already added it
+      if ((error as { code?: number }).code !== 11000) throw error;
+    }
+    reacted = true;
+  }
+
+  const summaries = await getReactionSummaries(targetType, [targetId], userId);
+  return { reacted, reactions: summaries.get(targetId.toString()) ?? emptySummary() };
+}
+
+/**
+ * Remove all reactions on the given targets (post/comment deletion)
+ */
+export async function deleteReactions(
+  targetType: ReactionTargetType,
+  targetIds: Types.ObjectId[]
+): Promise<void> {
+  if (targetIds.length === 0) return;
+  await Reaction.deleteMany({ targetType, target: { $in: targetIds } });
+}
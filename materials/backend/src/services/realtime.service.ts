@@ -0,0 +1,259 @@
+/**
+ * Realtime Service
+ * Fans out new comments and notification changes to Server-Sent Event streams
+ *
+ * Every App tier VM watches the comments and notifications collections with a
+ * MongoDB change stream (this needs the replica set) and forwards each change to
+ * the streams its own clients opened. A comment written through one VM therefore
+ * reaches readers connected to any other, without the VMs knowing about each other.
+ */
+
+import { EventEmitter } from 'events';
+import { mongo, Types } from 'mongoose';
+import { Comment, IComment, INotification, Notification } from '../models';
+import { logger } from '../utils/logger';
+import { closeAllEventStreams, SseEvent } from '../utils/sse';
+import { COMMENT_AUTHOR_FIELDS } from './comments.service';
+import { getUnreadCount, presentNotifications } from './notifications.service';
+
+// Backoff for reopening a failed change stream
+const RETRY_MIN_MS = 1000;
+const RETRY_MAX_MS = 60 * 1000;
+
+// Read-state changes are coalesced per user (mark-all-read updates many documents)
+const UNREAD_FLUSH_MS = 250;
+
+// Resume token no longer in the oplog: start from the current time instead
+const CHANGE_STREAM_HISTORY_LOST = 286;
+
+type RealtimeChannel = `post:${string}` | `user:${string}`;
+
+type NotificationChange =
+  | mongo.ChangeStreamInsertDocument<INotification>
+  | mongo.ChangeStreamUpdateDocument<INotification>;
+
+interface Watcher {
+  close(): Promise<void>;
+}
+
+const channels = new EventEmitter();
+channels.setMaxListeners(0); // One listener per open stream
+
+let watchers: Watcher[] = [];
+const pendingUnread = new Map<string, Types.ObjectId>();
+let unreadTimer: NodeJS.Timeout | undefined;
+
+export function postChannel(postId: Types.ObjectId): RealtimeChannel {
+  return `post:${postId.toHexString()}`;
+}
+
+export function userChannel(userId: Types.ObjectId): RealtimeChannel {
+  return `user:${userId.toHexString()}`;
+}
+
+/**
+ * Receive events published to a channel on this instance
+ * @returns unsubscribe function
+ */
+export function subscribe(
+  channel: RealtimeChannel,
+  listener: (event: SseEvent) => void
+): () => void {
+  channels.on(channel, listener);
+  return () => {
+    channels.off(channel, listener);
+  };
+}
+
+function hasSubscribers(channel: RealtimeChannel): boolean {
+  return channels.listenerCount(channel) > 0;
+}
+
+/**
+ * Stream event for a new comment (author populated by the caller)
+ */
+export function commentEvent(comment: { _id: Types.ObjectId }): SseEvent {
+  return { event: 'comment', id: comment._id.toHexString(), data: comment };
+}
+
+/**
+ * Stream event for a new notification, with the recipient's unread count
+ */
+export async function notificationEvent(
+  notification: { _id: Types.ObjectId; recipient: Types.ObjectId },
+  unreadCount?: number
+): Promise<SseEvent> {
+  const [[presented], count] = await Promise.all([
+    presentNotifications([notification]),
+    unreadCount ?? getUnreadCount(notification.recipient),
+  ]);
+  return {
+    event: 'notification',
+    id: notification._id.toHexString(),
+    data: { notification: presented, unreadCount: count },
+  };
+}
+
+async function handleComment(change: mongo.ChangeStreamInsertDocument<IComment>): Promise<void> {
+  const comment = change.fullDocument;
+  const channel = postChannel(comment.post);
+  if (!hasSubscribers(channel) || comment.isDeleted || comment.isHidden) return;
+
+  await Comment.populate(comment, { path: 'author', select: COMMENT_AUTHOR_FIELDS });
+  channels.emit(channel, commentEvent(comment));
+}
+
+async function handleNotification(change: NotificationChange): Promise<void> {
+  const notification = change.fullDocument;
+  if (!notification || !hasSubscribers(userChannel(notification.recipient))) return;
+
+  if (change.operationType === 'insert') {
+    channels.emit(userChannel(notification.recipient), await notificationEvent(notification));
+    return;
+  }
+
+  pendingUnread.set(notification.recipient.toHexString(), notification.recipient);
+  unreadTimer ??= setTimeout(() => {
+    flushUnreadCounts().catch((err) => {
+      logger.error('Failed to publish unread counts:', err);
+    });
+  }, UNREAD_FLUSH_MS);
+}
+
+async function flushUnreadCounts(): Promise<void> {
+  unreadTimer = undefined;
+  const userIds = [...pendingUnread.values()];
+  pendingUnread.clear();
+
+  await Promise.all(
+    userIds.map(async (userId) => {
+      const unreadCount = await getUnreadCount(userId);
+      channels.emit(userChannel(userId), { event: 'unread', data: { unreadCount } });
+    })
+  );
+}
+
+/**
+ * Keep a change stream open: resume after errors with backoff, from the last
+ * processed event when the oplog still has it
+ */
+function watchCollection<
+  TSchema extends mongo.Document,
+  TChange extends mongo.ChangeStreamDocument,
+>(
+  name: string,
+  open: (resumeAfter?: mongo.ResumeToken) => mongo.ChangeStream<TSchema, TChange>,
+  handle: (change: TChange) => Promise<void>
+): Watcher {
+  let stream: mongo.ChangeStream<TSchema, TChange> | undefined;
+  let resumeToken: mongo.ResumeToken | undefined;
+  let retryMs = RETRY_MIN_MS;
+  let retryTimer: NodeJS.Timeout | undefined;
+  let closed = false;
+
+  const restart = (): void => {
+    const failed = stream;
+    stream = undefined;
+    failed?.close().catch(() => undefined);
+    if (closed || retryTimer) return;
+
+    retryTimer = setTimeout(() => {
+      retryTimer = undefined;
+      start();
+    }, retryMs);
+    retryMs = Math.min(retryMs * 2, RETRY_MAX_MS);
+  };
+
+  const start = (): void => {
+    if (closed) return;
+    const current = open(resumeToken);
+    stream = current;
+
+    current.on('change', (change) => {
+      resumeToken = change._id;
+      retryMs = RETRY_MIN_MS;
+      handle(change).catch((err) => {
+        logger.error(`Failed to publish ${name} change:`, err);
+      });
+    });
+    current.on('error', (error) => {
+      if ((error as { code?: number }).code === CHANGE_STREAM_HISTORY_LOST) {
+        resumeToken = undefined;
+      }
+      logger.warn(`${name} change stream failed, reopening in ${retryMs}ms:`, error);
+      restart();
+    });
+    // Closed by the server (e.g. invalidated) rather than by restart() or close()
+    current.on('close', () => {
+      if (stream === current) restart();
+    });
+  };
+
+  start();
+
+  return {
+    async close(): Promise<void> {
+      closed = true;
+      clearTimeout(retryTimer);
+      const current = stream;
+      stream = undefined;
+      await current?.close();
+    },
+  };
+}
+
+/**
+ * Start the change streams on this instance
+ */
+export function startRealtime(): void {
+  if (watchers.length > 0) return;
+
+  watchers = [
+    watchCollection(
+      'Comment',
+      (resumeAfter) =>
+        Comment.watch<IComment, mongo.ChangeStreamInsertDocument<IComment>>(
+          [{ $match: { operationType: 'insert' } }],
+          { resumeAfter }
+        ),
+      handleComment
+    ),
+    watchCollection(
+      'Notification',
+      (resumeAfter) =>
+        Notification.watch<INotification, NotificationChange>(
+          [
+            {
+              $match: {
+                $or: [
+                  { operationType: 'insert' },
+                  {
+                    operationType: 'update',
+                    'updateDescription.updatedFields.readAt': { $exists: true },
+                  },
+                ],
+              },
+            },
+          ],
+          { fullDocument: 'updateLookup', resumeAfter }
+        ),
+      handleNotification
+    ),
+  ];
+
+  logger.info('Realtime change streams started');
+}
+
+/**
+ * End open event streams and close the change streams (graceful shutdown)
+ */
+export async function stopRealtime(): Promise<void> {
+  closeAllEventStreams();
+  clearTimeout(unreadTimer);
+  unreadTimer = undefined;
+  pendingUnread.clear();
+
+  const current = watchers;
+  watchers = [];
+  await Promise.all(current.map((watcher) => watcher.close()));
+}
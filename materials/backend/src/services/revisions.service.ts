@@ -0,0 +1,133 @@
+/**
+ * Revisions Service
+ * Records post snapshots and computes diffs between them
+ */
+
+import { ClientSession, Types } from 'mongoose';
+import { diffLines, diffWordsWithSpace } from 'diff';
+import { IPost, IPostRevision, PostRevision } from '../models';
+
+const MAX_RECORD_ATTEMPTS = 3;
+
+/**
+ * One piece of a diff. Unchanged text has neither flag set.
+ */
+export interface DiffChange {
+  value: string;
+  added: boolean;
+  removed: boolean;
+}
+
+export interface RevisionDiff {
+  from: number;
+  to: number;
+  title: DiffChange[];
+  excerpt: DiffChange[];
+  content: DiffChange[];
+  tags: { added: string[]; removed: string[] };
+}
+
+type RevisionFields = Pick<IPostRevision, 'title' | 'content' | 'excerpt' | 'tags'>;
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number })?.code === 11000;
+}
+
+function isSameRevision(a: RevisionFields, b: RevisionFields): boolean {
+  return (
+    a.title === b.title &&
+    a.content === b.content &&
+    (a.excerpt ?? '') === (b.excerpt ?? '') &&
+    a.tags.join('\n') === b.tags.join('\n')
+  );
+}
+
+/**
+ * Snapshot the current state of a post as its next revision
+ * Nothing is recorded (null) when title, content, excerpt and tags match the
+ * latest revision, e.g. for status-only saves.
+ * Two saves racing for the same revision number hit the unique index;
+ * the loser re-reads the latest number and tries again. Inside a transaction
+ * the error aborts it instead (the driver retries write conflicts).
+ * @param options.restoredFrom Revision number the post was restored from
+ * @param options.session Record the revision in this transaction
+ */
+export async function recordRevision(
+  post: IPost,
+  editorId: Types.ObjectId,
+  options: { restoredFrom?: number; session?: ClientSession } = {}
+): Promise<IPostRevision | null> {
+  const { restoredFrom, session } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    const latest = await PostRevision.findOne({ post: post._id })
+      .sort({ revision: -1 })
+      .select('revision title content excerpt tags')
+      .session(session ?? null)
+      .lean();
+
+    if (latest && isSameRevision(latest, post)) {
+      return null;
+    }
+
+    try {
+      const [revision] = await PostRevision.create(
+        [
+          {
+            post: post._id,
+            revision: (latest?.revision ?? 0) + 1,
+            title: post.title,
+            content: post.content,
+            excerpt: post.excerpt,
+            tags: post.tags,
+            status: post.status,
+            editor: editorId,
+            restoredFrom,
+          },
+        ],
+        { session }
+      );
+      return revision!;
+    } catch (error) {
+      if (session || !isDuplicateKeyError(error) || attempt >= MAX_RECORD_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Keep the state of a post without revisions (created before they were
+ * recorded) as revision 1. Call before applying an edit.
+ */
+export async function ensureBaselineRevision(post: IPost, editorId: Types.ObjectId): Promise<void> {
+  if (await PostRevision.exists({ post: post._id })) return;
+  await recordRevision(post, editorId);
+}
+
+function toChanges(changes: { value: string; added: boolean; removed: boolean }[]): DiffChange[] {
+  return changes.map(({ value, added, removed }) => ({ value, added, removed }));
+}
+
+/**
+ * Diff two revisions: word-level for short fields, line-level for the Markdown body
+ */
+export function diffRevisions(
+  from: RevisionFields & { revision: number },
+  to: RevisionFields & { revision: number }
+): RevisionDiff {
+  const fromTags = new Set(from.tags);
+  const toTags = new Set(to.tags);
+
+  return {
+    from: from.revision,
+    to: to.revision,
+    title: toChanges(diffWordsWithSpace(from.title, to.title)),
+    excerpt: toChanges(diffWordsWithSpace(from.excerpt ?? '', to.excerpt ?? '')),
+    content: toChanges(diffLines(from.content, to.content)),
+    tags: {
+      added: to.tags.filter((tag) => !fromTags.has(tag)),
+      removed: from.tags.filter((tag) => !toTags.has(tag)),
+    },
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Publish Scheduler
+ * Promotes scheduled posts to published once their publishAt time has passed
+ *
+ * Every App tier VM runs this loop. Each post is claimed with a conditional
+ * update on { status: 'scheduled' }, so only one instance publishes it even
+ * when several run at the same time.
+ */
+
+import { config } from '../config/environment';
+import { Post } from '../models';
+import { publishEvent, runInTransaction } from './events.service';
+import { logger } from '../utils/logger';
+
+// Upper bound per tick so a large backlog doesn't hold one instance for long
+const BATCH_SIZE = 100;
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+/**
+ * Publish all scheduled posts that are due
+ * @returns Number of posts published by this instance
+ */
+export async function publishDuePosts(now: Date = new Date()): Promise<number> {
+  const due = await Post.find({ status: 'scheduled', publishAt: { $lte: now } })
+    .select('_id publishAt')
+    .sort({ publishAt: 1 })
+    .limit(BATCH_SIZE)
+    .lean();
+
+  let published = 0;
+
+  for (const candidate of due) {
+    // Conditional update: another instance may have claimed (or the author
+    // rescheduled) the post since it was read
+    const post = await runInTransaction(async (session) => {
+      const claimed = await Post.findOneAndUpdate(
+        { _id: candidate._id, status: 'scheduled', publishAt: { $lte: now } },
+        {
+          $set: { status: 'published', publishedAt: candidate.publishAt },
+          $unset: { publishAt: 1 },
+        },
+        { new: true, session }
+      )
+        .select('_id slug author')
+        .lean();
+      if (claimed) {
+        await publishEvent(
+          'post.published',
+          { postId: claimed._id, authorId: claimed.author },
+          { session }
+        );
+      }
+      return claimed;
+    });
+
+    if (post) {
+      published++;
+      logger.info('Scheduled post published:', { postId: post._id, slug: post.slug });
+    }
+  }
+
+  return published;
+}
+
+async function tick(): Promise<void> {
+  // Skip if the previous run is still going (slow database)
+  if (running) return;
+  running = true;
+  try {
+    await publishDuePosts();
+  } catch (error) {
+    logger.error('Publish scheduler run failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the background scheduler (no-op when SCHEDULER_INTERVAL_MS is 0)
+ */
+export function startPublishScheduler(): void {
+  if (timer || config.schedulerIntervalMs <= 0) return;
+
+  timer = setInterval(tick, config.schedulerIntervalMs);
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+  void tick();
+
+  logger.info(`Publish scheduler started (every ${config.schedulerIntervalMs} ms)`);
+}
+
+/**
+ * Stop the background scheduler (graceful shutdown)
+ */
+export function stopPublishScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
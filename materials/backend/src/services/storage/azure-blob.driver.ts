@@ -0,0 +1,68 @@
+/**
+ * Azure Blob Storage Driver
+ * Uploads through the Blob REST API using a container SAS token, so no extra SDK is needed.
+ * Use this driver whenever more than one backend VM runs behind the load balancer.
+ *
+ * For AWS-experienced engineers:
+ * - Similar to uploading to S3 with a pre-signed URL
+ */
+
+import type { StorageDriver } from './index';
+
+interface AzureBlobOptions {
+  azureStorageAccount?: string;
+  azureStorageContainer: string;
+  azureStorageSasToken?: string;
+}
+
+export class AzureBlobStorageDriver implements StorageDriver {
+  readonly name = 'azure-blob';
+
+  private readonly containerUrl: string;
+  private readonly sasToken: string;
+
+  constructor(options: AzureBlobOptions) {
+    if (!options.azureStorageAccount || !options.azureStorageSasToken) {
+      throw new Error(
+        'AZURE_STORAGE_ACCOUNT and AZURE_STORAGE_SAS_TOKEN are required for the azure-blob media driver'
+      );
+    }
+    this.containerUrl = `https://${options.azureStorageAccount}.blob.core.windows.net/${options.azureStorageContainer}`;
+    this.sasToken = options.azureStorageSasToken.replace(/^\?/, '');
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<string> {
+    const response = await fetch(this.signedUrl(key), {
+      method: 'PUT',
+      headers: {
+        'x-ms-blob-type': 'BlockBlob',
+        'x-ms-blob-content-type': contentType,
+        'x-ms-blob-cache-control': 'public, max-age=31536000, immutable',
+      },
+      body: new Uint8Array(data),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Blob upload failed: ${response.status} ${response.statusText}`);
+    }
+
+    return this.publicUrl(key);
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await fetch(this.signedUrl(key), { method: 'DELETE' });
+
+    // 404 means the blob is already gone
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Blob delete failed: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  private publicUrl(key: string): string {
+    return `${this.containerUrl}/${encodeURIComponent(key)}`;
+  }
+
+  private signedUrl(key: string): string {
+    return `${this.publicUrl(key)}?${this.sasToken}`;
+  }
+}
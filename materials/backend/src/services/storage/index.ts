@@ -0,0 +1,37 @@
+/**
+ * Media Storage
+ * Pluggable backends for uploaded files, selected by MEDIA_STORAGE_DRIVER
+ */
+
+import { config } from '../../config/environment';
+import { AzureBlobStorageDriver } from './azure-blob.driver';
+import { LocalStorageDriver } from './local.driver';
+
+/**
+ * Storage backend contract
+ * Keys are flat, generated names (e.g. "<id>.webp"); drivers decide where they live
+ */
+export interface StorageDriver {
+  readonly name: string;
+  /** Store a file and return the public URL it can be fetched from */
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+  /** Remove a file; succeeds if it is already gone */
+  delete(key: string): Promise<void>;
+}
+
+let driver: StorageDriver | null = null;
+
+/**
+ * Get the configured storage driver (created once per process)
+ */
+export function getStorageDriver(): StorageDriver {
+  if (!driver) {
+    driver =
+      config.media.storageDriver === 'azure-blob'
+        ? new AzureBlobStorageDriver(config.media)
+        : new LocalStorageDriver(config.media.localDir);
+  }
+  return driver;
+}
+
+export { LOCAL_MEDIA_ROUTE } from './local.driver';
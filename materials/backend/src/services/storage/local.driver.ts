@@ -0,0 +1,33 @@
+/**
+ * Local Filesystem Storage Driver
+ * Default for development. Files are served by the API itself, so this driver
+ * only suits a single backend VM - App tier VMs do not share a filesystem.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { StorageDriver } from './index';
+
+/** Path the Express app serves local uploads from (see app.ts) */
+export const LOCAL_MEDIA_ROUTE = '/api/media/files';
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private readonly directory: string) {}
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<string> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.resolve(key), data);
+    return `${LOCAL_MEDIA_ROUTE}/${key}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    // Keys are generated server-side, but never allow escaping the upload directory
+    return path.join(this.directory, path.basename(key));
+  }
+}
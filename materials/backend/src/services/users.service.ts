@@ -0,0 +1,181 @@
+/**
+ * Users Service
+ * Username rules, availability checks and username changes with redirects
+ */
+
+import { Types } from 'mongoose';
+import { ApiError } from '../middleware/error.middleware';
+import { IUser, User, UsernameRedirect } from '../models';
+
+export const USERNAME_PATTERN = /^[a-z0-9_-]+$/;
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+
+// Minimum time between two username changes by the same user
+export const USERNAME_CHANGE_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+// Names that collide with app routes or could be used to impersonate staff
+const RESERVED_USERNAMES = new Set([
+  'admin',
+  'administrator',
+  'anonymous',
+  'api',
+  'atom',
+  'blogapp',
+  'bookmarks',
+  'create',
+  'dashboard',
+  'edit',
+  'feed',
+  'health',
+  'help',
+  'login',
+  'logout',
+  'moderator',
+  'my-posts',
+  'new',
+  'notifications',
+  'null',
+  'posts',
+  'profile',
+  'root',
+  'rss',
+  'search',
+  'settings',
+  'signin',
+  'signup',
+  'staff',
+  'support',
+  'system',
+  'tags',
+  'undefined',
+  'users',
+]);
+
+export type UsernameUnavailableReason = 'invalid' | 'reserved' | 'taken';
+
+export interface UsernameAvailability {
+  username: string;
+  available: boolean;
+  reason?: UsernameUnavailableReason;
+}
+
+export function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+export function isReservedUsername(username: string): boolean {
+  return RESERVED_USERNAMES.has(normalizeUsername(username));
+}
+
+/**
+ * Check whether a username can be claimed
+ * Previous usernames of other users stay unavailable so their redirects keep working;
+ * a user may reclaim their own previous username.
+ */
+export async function checkUsernameAvailability(
+  username: string,
+  userId?: Types.ObjectId
+): Promise<UsernameAvailability> {
+  const normalized = normalizeUsername(username);
+
+  if (
+    normalized.length < USERNAME_MIN_LENGTH ||
+    normalized.length > USERNAME_MAX_LENGTH ||
+    !USERNAME_PATTERN.test(normalized)
+  ) {
+    return { username: normalized, available: false, reason: 'invalid' };
+  }
+
+  if (isReservedUsername(normalized)) {
+    return { username: normalized, available: false, reason: 'reserved' };
+  }
+
+  const [user, redirect] = await Promise.all([
+    User.exists({ username: normalized, ...(userId && { _id: { $ne: userId } }) }),
+    UsernameRedirect.exists({ oldUsername: normalized, ...(userId && { user: { $ne: userId } }) }),
+  ]);
+
+  if (user || redirect) {
+    return { username: normalized, available: false, reason: 'taken' };
+  }
+
+  return { username: normalized, available: true };
+}
+
+/**
+ * Change a user's username and keep the old one as a redirect
+ * @throws ApiError 400 (invalid/reserved), 409 (taken), 429 (changed too recently)
+ */
+export async function changeUsername(userId: Types.ObjectId, username: string): Promise<IUser> {
+  const user = await User.findById(userId);
+  if (!user) {
+    throw ApiError.notFound('User');
+  }
+
+  const newUsername = normalizeUsername(username);
+  const oldUsername = user.username;
+  if (newUsername === oldUsername) {
+    return user;
+  }
+
+  if (user.usernameChangedAt) {
+    const nextChangeAt = new Date(user.usernameChangedAt.getTime() + USERNAME_CHANGE_COOLDOWN_MS);
+    if (nextChangeAt > new Date()) {
+      throw new ApiError(429, 'You can only change your username once per day', 'RATE_LIMITED', {
+        retryAfter: nextChangeAt.toISOString(),
+      });
+    }
+  }
+
+  const availability = await checkUsernameAvailability(newUsername, user._id);
+  if (availability.reason === 'invalid') {
+    throw ApiError.badRequest('Username must be 3-30 characters: a-z, 0-9, _ and -');
+  }
+  if (availability.reason === 'reserved') {
+    throw ApiError.badRequest('This username is reserved');
+  }
+  if (availability.reason === 'taken') {
+    throw ApiError.conflict('Username is already taken');
+  }
+
+  user.username = newUsername;
+  user.usernameChangedAt = new Date();
+  try {
+    await user.save();
+  } catch (error) {
+    // Unique index on username: someone else claimed it after the check above
+    if ((error as { code?: number }).code === 11000) {
+      throw ApiError.conflict('Username is already taken');
+    }
+    throw error;
+  }
+
+  await Promise.all([
+    // Reclaiming a previous username: it no longer needs to redirect
+    UsernameRedirect.deleteOne({ oldUsername: newUsername, user: user._id }),
+    UsernameRedirect.updateOne({ oldUsername }, { $set: { user: user._id } }, { upsert: true }),
+  ]);
+
+  return user;
+}
+
+/**
+ * Local user id for an optionally authenticated request (no user is created)
+ */
+export async function findViewerId(oid?: string): Promise<Types.ObjectId | undefined> {
+  if (!oid) return undefined;
+  const user = await User.exists({ oid });
+  return user?._id;
+}
+
+/**
+ * Current username for a previous username, or null if it never redirected
+ */
+export async function resolveUsernameRedirect(oldUsername: string): Promise<string | null> {
+  const redirect = await UsernameRedirect.findOne({ oldUsername: normalizeUsername(oldUsername) })
+    .populate('user', 'username')
+    .lean();
+
+  return (redirect?.user as unknown as { username?: string } | null)?.username ?? null;
+}
@@ -0,0 +1,124 @@
+/**
+ * Views Service
+ * Deduplicated post view counting with daily buckets for statistics
+ */
+
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+import { config } from '../config/environment';
+import { Post, PostView, PostViewDaily } from '../models';
+
+// Crawlers, link previews, uptime monitors and scripted clients
+const BOT_USER_AGENT =
+  /bot|crawl|spider|slurp|fetch|preview|facebookexternalhit|embedly|headless|lighthouse|monitor|pingdom|curl|wget|python-requests|httpclient|axios|node-fetch/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ViewContext {
+  oid?: string; // Signed-in reader
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface DailyViews {
+  day: string; // YYYY-MM-DD (UTC)
+  views: number;
+}
+
+export function isBotUserAgent(userAgent?: string): boolean {
+  return !userAgent || BOT_USER_AGENT.test(userAgent);
+}
+
+/**
+ * UTC calendar day of a date, as stored in the daily buckets
+ */
+export function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Stable key for a reader: the account when signed in, otherwise a hash of
+ * IP and User-Agent (the raw IP is never stored)
+ */
+function viewerKey(context: ViewContext): string {
+  if (context.oid) {
+    return `user:${context.oid}`;
+  }
+  const hash = createHash('sha256')
+    .update(`${context.ip ?? ''}|${context.userAgent ?? ''}`)
+    .digest('base64url');
+  return `anon:${hash}`;
+}
+
+/**
+ * Count a view unless it comes from a bot, from the post's author, or from a
+ * reader who already viewed the post within the dedupe window
+ * @returns whether the view was counted
+ */
+export async function recordView(
+  post: { _id: Types.ObjectId; authorOid?: string },
+  context: ViewContext
+): Promise<boolean> {
+  if (isBotUserAgent(context.userAgent)) return false;
+  if (context.oid && context.oid === post.authorOid) return false;
+
+  const now = new Date();
+  const viewer = viewerKey(context);
+  const expiresAt = new Date(now.getTime() + config.viewDedupeWindowMinutes * 60 * 1000);
+  try {
+    await PostView.create({ post: post._id, viewer, expiresAt });
+  } catch (error) {
+    if ((error as { code?: number }).code !== 11000) throw error;
+
+    // The TTL monitor removes expired markers only about once a minute: an expired
+    // marker starts a new window (and counts) instead of hiding the view
+    const renewed = await PostView.findOneAndUpdate(
+      { post: post._id, viewer, expiresAt: { $lte: now } },
+      { $set: { expiresAt } }
+    );
+    // Otherwise the marker is still live: a repeat view within the window
+    if (!renewed) return false;
+  }
+
+  await Promise.all([
+    Post.updateOne({ _id: post._id }, { $inc: { viewCount: 1 } }),
+    PostViewDaily.updateOne(
+      { post: post._id, day: utcDay(now) },
+      { $inc: { views: 1 } },
+      { upsert: true }
+    ),
+  ]);
+
+  return true;
+}
+
+/**
+ * Views per day for the last `days` days (including today), oldest first,
+ * with zero-view days filled in
+ */
+export async function getDailyViews(postId: Types.ObjectId, days: number): Promise<DailyViews[]> {
+  const today = new Date();
+  const range = Array.from({ length: days }, (_, i) =>
+    utcDay(new Date(today.getTime() - (days - 1 - i) * DAY_MS))
+  );
+
+  const buckets = await PostViewDaily.find({
+    post: postId,
+    day: { $gte: range[0], $lte: range[range.length - 1] },
+  })
+    .select('day views')
+    .lean();
+  const viewsByDay = new Map(buckets.map((bucket) => [bucket.day, bucket.views]));
+
+  return range.map((day) => ({ day, views: viewsByDay.get(day) ?? 0 }));
+}
+
+/**
+ * Remove view data for deleted posts
+ */
+export async function deleteViews(postId: Types.ObjectId): Promise<void> {
+  await Promise.all([
+    PostView.deleteMany({ post: postId }),
+    PostViewDaily.deleteMany({ post: postId }),
+  ]);
+}
@@ -0,0 +1,178 @@
+/**
+ * Webhook Worker
+ * Sends queued webhook deliveries and retries failures with exponential backoff
+ *
+ * Every App tier VM runs this loop. Deliveries are claimed with a conditional
+ * update (pending -> sending) so each is sent by one instance; a claim that is
+ * not completed before lockedUntil (instance crashed mid-request) is released
+ * again. Delivery is therefore at-least-once: receivers dedupe on the event id.
+ */
+
+import { config } from '../config/environment';
+import { IWebhookDelivery, Webhook, WebhookDelivery } from '../models';
+import { signWebhookPayload } from './webhooks.service';
+import { logger } from '../utils/logger';
+
+// Upper bound per tick so a large backlog doesn't hold one instance for long
+const BATCH_SIZE = 50;
+
+const MAX_ATTEMPTS = 10;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+const RESPONSE_BODY_LIMIT = 1000;
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+/**
+ * Release claims whose worker never finished
+ */
+async function releaseExpiredClaims(now: Date): Promise<void> {
+  const result = await WebhookDelivery.updateMany(
+    { status: 'sending', lockedUntil: { $lt: now } },
+    { $set: { status: 'pending' }, $unset: { lockedUntil: 1 } }
+  );
+  if (result.modifiedCount > 0) {
+    logger.warn(`Released ${result.modifiedCount} expired webhook claim(s)`);
+  }
+}
+
+async function finish(
+  delivery: IWebhookDelivery,
+  outcome: { responseStatus?: number; responseBody?: string; error?: string; durationMs?: number }
+): Promise<void> {
+  const succeeded = !outcome.error;
+  const final = succeeded || delivery.attempts >= MAX_ATTEMPTS;
+  const delay = Math.min(RETRY_BASE_MS * 2 ** (delivery.attempts - 1), RETRY_MAX_MS);
+
+  await WebhookDelivery.updateOne(
+    { _id: delivery._id },
+    {
+      $set: {
+        status: succeeded ? 'succeeded' : final ? 'failed' : 'pending',
+        responseStatus: outcome.responseStatus,
+        responseBody: outcome.responseBody,
+        lastError: outcome.error?.slice(0, 1000),
+        durationMs: outcome.durationMs,
+        ...(final ? { completedAt: new Date() } : { nextAttemptAt: new Date(Date.now() + delay) }),
+      },
+      $unset: { lockedUntil: 1 },
+    }
+  );
+}
+
+async function deliver(delivery: IWebhookDelivery): Promise<void> {
+  const webhook = await Webhook.findById(delivery.webhook).select('+secret').lean();
+  // Pings are sent to inactive webhooks too, so an endpoint can be tested before enabling it
+  if (!webhook || (!webhook.isActive && delivery.event !== 'ping')) {
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      {
+        $set: { status: 'failed', lastError: 'Webhook disabled', completedAt: new Date() },
+        $unset: { lockedUntil: 1 },
+      }
+    );
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'BlogApp-Webhooks/1.0',
+        'X-Webhook-Id': delivery._id.toString(),
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+      },
+      body,
+      redirect: 'manual', // A redirect is a failed delivery, not a request to follow
+      signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+    });
+    const responseBody = (await response.text().catch(() => '')).slice(0, RESPONSE_BODY_LIMIT);
+
+    await finish(delivery, {
+      responseStatus: response.status,
+      responseBody,
+      error: response.ok ? undefined : `HTTP ${response.status}`,
+      durationMs: Date.now() - started,
+    });
+  } catch (error) {
+    await finish(delivery, {
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - started,
+    });
+  }
+}
+
+/**
+ * Send due deliveries
+ * @returns Number of deliveries attempted by this instance
+ */
+export async function sendDueDeliveries(now: Date = new Date()): Promise<number> {
+  let processed = 0;
+
+  while (processed < BATCH_SIZE) {
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      { status: 'pending', nextAttemptAt: { $lte: now } },
+      {
+        $set: {
+          status: 'sending',
+          lockedUntil: new Date(Date.now() + config.webhooks.timeoutMs * 2 + 60 * 1000),
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+    if (!delivery) break;
+
+    await deliver(delivery);
+    processed++;
+  }
+
+  return processed;
+}
+
+async function tick(): Promise<void> {
+  // Skip if the previous run is still going (slow receivers)
+  if (running) return;
+  running = true;
+  try {
+    const now = new Date();
+    await releaseExpiredClaims(now);
+    await sendDueDeliveries(now);
+  } catch (error) {
+    logger.error('Webhook worker run failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the webhook worker (no-op when WEBHOOK_WORKER_INTERVAL_MS is 0)
+ */
+export function startWebhookWorker(): void {
+  if (timer || config.webhooks.workerIntervalMs <= 0) return;
+
+  timer = setInterval(tick, config.webhooks.workerIntervalMs);
+  // Don't keep the process alive just for the worker
+  timer.unref();
+  void tick();
+
+  logger.info(`Webhook worker started (every ${config.webhooks.workerIntervalMs} ms)`);
+}
+
+/**
+ * Stop the webhook worker (graceful shutdown)
+ */
+export function stopWebhookWorker(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Webhooks Service
+ * Queues post and comment events for the webhooks subscribed to them, and
+ * signs, tests and redelivers deliveries
+ *
+ * Nothing is sent here: the webhook worker (webhookWorker.service.ts) delivers
+ * queued entries, so a slow or unreachable receiver never delays a request.
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { Types } from 'mongoose';
+import { config } from '../config/environment';
+import { ApiError } from '../middleware/error.middleware';
+import { Comment, IWebhookDelivery, Post, Webhook, WebhookDelivery, WebhookEvent } from '../models';
+
+type EventData = Record<string, unknown>;
+
+interface EventAuthor {
+  _id: Types.ObjectId;
+  username: string;
+  displayName: string;
+}
+
+const AUTHOR_FIELDS = 'username displayName';
+
+/**
+ * New signing secret (shown to the admin once, on creation or rotation)
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * HMAC-SHA256 of "<timestamp>.<body>", hex encoded
+ * Receivers recompute it from the raw request body and the X-Webhook-Timestamp
+ * header, and reject old timestamps to stop replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function authorData(author: EventAuthor | null | undefined): EventData | null {
+  return author
+    ? { id: author._id, username: author.username, displayName: author.displayName }
+    : null;
+}
+
+/**
+ * Queue one delivery per active webhook subscribed to the event
+ * The payload is built only when someone is subscribed; returning null skips the event.
+ */
+async function queueEvent(
+  event: WebhookEvent,
+  buildData: () => Promise<EventData | null>
+): Promise<void> {
+  const webhooks = await Webhook.find({ events: event, isActive: true }).select('_id').lean();
+  if (webhooks.length === 0) return;
+
+  const data = await buildData();
+  if (!data) return;
+
+  const eventId = randomUUID();
+  const payload = { id: eventId, type: event, createdAt: new Date().toISOString(), data };
+
+  await WebhookDelivery.insertMany(
+    webhooks.map((webhook) => ({ webhook: webhook._id, event, eventId, payload }))
+  );
+}
+
+/**
+ * Queue a post event with the post's current state
+ */
+export async function queuePostEvent(
+  event: 'post.created' | 'post.updated' | 'post.published',
+  postId: Types.ObjectId
+): Promise<void> {
+  await queueEvent(event, async () => {
+    const post = await Post.findById(postId).populate('author', AUTHOR_FIELDS).lean();
+    if (!post) return null;
+
+    return {
+      post: {
+        id: post._id,
+        slug: post.slug,
+        title: post.title,
+        excerpt: post.excerpt,
+        status: post.status,
+        tags: post.tags,
+        featuredImageUrl: post.featuredImageUrl,
+        content: post.content,
+        contentHtml: post.contentHtml,
+        author: authorData(post.author as unknown as EventAuthor),
+        url: config.siteUrl ? `${config.siteUrl}/posts/${post.slug}` : undefined,
+        publishedAt: post.publishedAt,
+        publishAt: post.publishAt,
+        createdAt: post.createdAt,
+        updatedAt: post.updatedAt,
+      },
+    };
+  });
+}
+
+/**
+ * Queue post.deleted (the post is gone, so the caller passes what identified it)
+ */
+export async function queuePostDeletedEvent(post: {
+  _id: Types.ObjectId;
+  slug: string;
+  title: string;
+}): Promise<void> {
+  await queueEvent('post.deleted', async () => ({
+    post: { id: post._id, slug: post.slug, title: post.title },
+  }));
+}
+
+/**
+ * Queue a comment event with the comment's current state
+ */
+export async function queueCommentEvent(
+  event: 'comment.created' | 'comment.updated',
+  commentId: Types.ObjectId
+): Promise<void> {
+  await queueEvent(event, async () => {
+    const comment = await Comment.findById(commentId)
+      .populate('author', AUTHOR_FIELDS)
+      .populate('post', 'slug title')
+      .lean();
+    if (!comment) return null;
+
+    const post = comment.post as unknown as { _id: Types.ObjectId; slug: string; title: string };
+    return {
+      comment: {
+        id: comment._id,
+        post: post ? { id: post._id, slug: post.slug, title: post.title } : null,
+        parentCommentId: comment.parentComment ?? null,
+        author: authorData(comment.author as unknown as EventAuthor),
+        content: comment.content,
+        isEdited: comment.isEdited,
+        createdAt: comment.createdAt,
+        updatedAt: comment.updatedAt,
+      },
+    };
+  });
+}
+
+/**
+ * Queue comment.deleted
+ */
+export async function queueCommentDeletedEvent(comment: {
+  _id: Types.ObjectId;
+  post: Types.ObjectId;
+}): Promise<void> {
+  await queueEvent('comment.deleted', async () => ({
+    comment: { id: comment._id, postId: comment.post },
+  }));
+}
+
+/**
+ * Queue a 'ping' delivery to one webhook (sent even when the webhook is inactive)
+ */
+export async function queuePing(webhookId: Types.ObjectId): Promise<IWebhookDelivery> {
+  const eventId = randomUUID();
+  return WebhookDelivery.create({
+    webhook: webhookId,
+    event: 'ping',
+    eventId,
+    payload: {
+      id: eventId,
+      type: 'ping',
+      createdAt: new Date().toISOString(),
+      data: { webhookId },
+    },
+  });
+}
+
+/**
+ * Send a finished delivery again, as a new delivery with the same event id and payload
+ */
+export async function redeliver(
+  webhookId: Types.ObjectId,
+  deliveryId: string
+): Promise<IWebhookDelivery> {
+  const delivery = await WebhookDelivery.findOne({ _id: deliveryId, webhook: webhookId }).lean();
+  if (!delivery) {
+    throw ApiError.notFound('Delivery');
+  }
+  if (delivery.status === 'pending' || delivery.status === 'sending') {
+    throw ApiError.conflict('Delivery is still in progress');
+  }
+
+  return WebhookDelivery.create({
+    webhook: delivery.webhook,
+    event: delivery.event,
+    eventId: delivery.eventId,
+    payload: delivery.payload,
+    redeliveryOf: delivery._id,
+  });
+}
+
+/**
+ * Remove a webhook's delivery log (webhook deleted)
+ */
+export async function deleteDeliveries(webhookId: Types.ObjectId): Promise<void> {
+  await WebhookDelivery.deleteMany({ webhook: webhookId });
+}
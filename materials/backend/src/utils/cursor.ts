@@ -0,0 +1,96 @@
+/**
+ * Cursor Pagination Utilities
+ * Opaque keyset cursors over (date field, _id) for stable infinite scrolling
+ */
+
+import { Types } from 'mongoose';
+
+export type SortDirection = 1 | -1;
+
+interface CursorPosition {
+  value: Date;
+  id: Types.ObjectId;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export function encodeCursor(value: Date, id: Types.ObjectId): string {
+  return Buffer.from(JSON.stringify([value.getTime(), id.toHexString()])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): CursorPosition | null {
+  try {
+    const [time, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as unknown[];
+    if (typeof time !== 'number' || typeof id !== 'string' || !Types.ObjectId.isValid(id)) {
+      return null;
+    }
+    return { value: new Date(time), id: new Types.ObjectId(id) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * express-validator custom validator; an empty cursor requests the first page
+ */
+export function isCursor(value: string): true {
+  if (value !== '' && !decodeCursor(value)) {
+    throw new Error('Invalid cursor');
+  }
+  return true;
+}
+
+/**
+ * Sort on the cursor key; _id breaks ties between equal dates
+ */
+export function cursorSort(field: string, direction: SortDirection): Record<string, SortDirection> {
+  return { [field]: direction, _id: direction };
+}
+
+/**
+ * Restrict a filter to documents after the cursor in the given sort direction
+ */
+export function applyCursor<F extends object>(
+  filter: F,
+  field: string,
+  cursor: string,
+  direction: SortDirection
+): F | { $and: object[] } {
+  const position = cursor ? decodeCursor(cursor) : null;
+  if (!position) {
+    return filter;
+  }
+
+  const op = direction === -1 ? '$lt' : '$gt';
+  return {
+    $and: [
+      filter,
+      {
+        $or: [
+          { [field]: { [op]: position.value } },
+          { [field]: position.value, _id: { [op]: position.id } },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Split a result fetched with limit + 1 into the page and the cursor for the next one
+ */
+export function toCursorPage<T extends { _id: Types.ObjectId }>(
+  docs: T[],
+  limit: number,
+  field: keyof T
+): CursorPage<T> {
+  const items = docs.slice(0, limit);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor: docs.length > limit && last ? encodeCursor(last[field] as Date, last._id) : null,
+  };
+}
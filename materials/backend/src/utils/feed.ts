@@ -0,0 +1,123 @@
+/**
+ * Feed Utilities
+ * RSS 2.0 and Atom 1.0 serialization for published posts
+ */
+
+export interface FeedItem {
+  title: string;
+  link: string;
+  summary?: string;
+  contentHtml: string; // Already sanitized
+  authorName?: string;
+  categories: string[];
+  publishedAt: Date;
+  updatedAt: Date;
+}
+
+export interface FeedMeta {
+  title: string;
+  description: string;
+  selfUrl: string; // Absolute URL of the feed itself
+  alternateUrl: string; // HTML page the feed mirrors
+  updatedAt: Date;
+}
+
+// Characters that are not allowed anywhere in an XML 1.0 document
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+/**
+ * Escape text for use in XML element content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Make root-relative links and image sources absolute; feed readers have no base URL
+ */
+export function absolutizeUrls(html: string, siteUrl: string): string {
+  return html.replace(/\b(href|src)="\/(?!\/)/g, `$1="${siteUrl}/`);
+}
+
+/**
+ * Render an RSS 2.0 document
+ */
+export function renderRss(meta: FeedMeta, items: FeedItem[]): string {
+  const entries = items.map((item) =>
+    [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.link)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(item.link)}</guid>`,
+      `      <pubDate>${item.publishedAt.toUTCString()}</pubDate>`,
+      item.authorName ? `      <dc:creator>${escapeXml(item.authorName)}</dc:creator>` : '',
+      ...item.categories.map((tag) => `      <category>${escapeXml(tag)}</category>`),
+      item.summary ? `      <description>${escapeXml(item.summary)}</description>` : '',
+      `      <content:encoded>${escapeXml(item.contentHtml)}</content:encoded>`,
+      '    </item>',
+    ]
+      .filter(Boolean)
+      .join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom"' +
+      ' xmlns:content="http://purl.org/rss/1.0/modules/content/"' +
+      ' xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(meta.title)}</title>`,
+    `    <link>${escapeXml(meta.alternateUrl)}</link>`,
+    `    <description>${escapeXml(meta.description)}</description>`,
+    `    <atom:link href="${escapeXml(meta.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${meta.updatedAt.toUTCString()}</lastBuildDate>`,
+    ...entries,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Render an Atom 1.0 document
+ */
+export function renderAtom(meta: FeedMeta, items: FeedItem[]): string {
+  const entries = items.map((item) =>
+    [
+      '  <entry>',
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.link)}"/>`,
+      `    <id>${escapeXml(item.link)}</id>`,
+      `    <published>${item.publishedAt.toISOString()}</published>`,
+      `    <updated>${item.updatedAt.toISOString()}</updated>`,
+      item.authorName ? `    <author><name>${escapeXml(item.authorName)}</name></author>` : '',
+      ...item.categories.map((tag) => `    <category term="${escapeXml(tag)}"/>`),
+      item.summary ? `    <summary>${escapeXml(item.summary)}</summary>` : '',
+      `    <content type="html">${escapeXml(item.contentHtml)}</content>`,
+      '  </entry>',
+    ]
+      .filter(Boolean)
+      .join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(meta.title)}</title>`,
+    `  <subtitle>${escapeXml(meta.description)}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(meta.alternateUrl)}"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(meta.selfUrl)}"/>`,
+    `  <id>${escapeXml(meta.selfUrl)}</id>`,
+    `  <updated>${meta.updatedAt.toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,24 @@
+/**
+ * Markdown rendering
+ * Post content is stored as Markdown (canonical) alongside sanitized HTML for display
+ */
+
+import { Marked } from 'marked';
+import { sanitizeRichHtml } from './sanitize';
+
+// Dedicated instance so options never leak through marked's global defaults
+const marked = new Marked({
+  gfm: true, // Tables, strikethrough and autolinks
+  breaks: false,
+  async: false,
+});
+
+/**
+ * Render Markdown to HTML that is safe to display
+ * Raw HTML embedded in the Markdown is passed through the same sanitizer policy
+ */
+export function renderMarkdown(markdown?: string | null): string {
+  if (!markdown) return '';
+  const html = marked.parse(markdown) as string;
+  return sanitizeRichHtml(html);
+}
@@ -27,6 +27,26 @@ export function sanitizeHtml(input?: string | null): string {
   });
 }
 
+// Expanded policy for rendered Markdown (post bodies): adds block-level structure,
+// tables and images on top of the default inline tags
+const RICH_ALLOWED_TAGS = [
+  ...DEFAULT_ALLOWED_TAGS,
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'hr', 'del', 's', 'sup', 'sub',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td', 'img',
+];
+
+// 'class' carries code block language hints (e.g. language-bash); 'align' is used by table cells
+const RICH_ALLOWED_ATTR = [...DEFAULT_ALLOWED_ATTR, 'src', 'alt', 'class', 'align'];
+
+export function sanitizeRichHtml(input?: string | null): string {
+  if (!input) return '';
+  return DOMPurify.sanitize(input, {
+    ALLOWED_TAGS: RICH_ALLOWED_TAGS,
+    ALLOWED_ATTR: RICH_ALLOWED_ATTR,
+    RETURN_TRUSTED_TYPE: false,
+  });
+}
+
 export function sanitizePlain(input?: string | null): string {
   if (!input) return '';
   return sanitizeHtml(input).replace(/<[^>]+>/g, '');
@@ -0,0 +1,101 @@
+/**
+ * Search utilities
+ * Helpers for building highlighted snippets from MongoDB $text search results
+ */
+
+/**
+ * A piece of highlighted text. Segments with `match: true` contain a search term.
+ * Returned as structured data so clients never need to render server HTML.
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const DEFAULT_SNIPPET_LENGTH = 200;
+
+/**
+ * Extract plain search terms from a $text query string
+ * Drops negations ("-term") and quote characters used for phrase search
+ */
+export function extractSearchTerms(query: string): string[] {
+  const terms = query
+    .split(/\s+/)
+    .filter((term) => term && !term.startsWith('-'))
+    .map((term) => term.replace(/"/g, '').trim().toLowerCase())
+    .filter((term) => term.length > 0);
+
+  return Array.from(new Set(terms));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Strip HTML tags and collapse whitespace so snippets are plain text
+ */
+export function toPlainText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split text into segments, marking each occurrence of a search term
+ */
+export function highlightTerms(text: string, terms: string[]): HighlightSegment[] {
+  if (!text) return [];
+  if (terms.length === 0) return [{ text, match: false }];
+
+  // Longest terms first so "azure-vm" wins over "azure"
+  const pattern = new RegExp(
+    `(${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`,
+    'gi'
+  );
+
+  return text
+    .split(pattern)
+    .filter((part) => part.length > 0)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
+
+/**
+ * Build a highlighted snippet centred on the first matching term
+ * Falls back to the start of the text when no term occurs literally
+ * (e.g. the match came from stemming or from tags)
+ */
+export function buildSnippet(
+  html: string,
+  terms: string[],
+  maxLength: number = DEFAULT_SNIPPET_LENGTH
+): HighlightSegment[] {
+  const text = toPlainText(html);
+  if (text.length <= maxLength) {
+    return highlightTerms(text, terms);
+  }
+
+  const lowerText = text.toLowerCase();
+  const firstMatch = terms
+    .map((term) => lowerText.indexOf(term))
+    .filter((index) => index >= 0)
+    .reduce((min, index) => Math.min(min, index), Number.POSITIVE_INFINITY);
+
+  let start = 0;
+  if (Number.isFinite(firstMatch)) {
+    start = Math.max(0, Math.min(firstMatch - Math.floor(maxLength / 3), text.length - maxLength));
+    // Avoid cutting a word in half at the start
+    const nextSpace = text.indexOf(' ', start);
+    if (start > 0 && nextSpace !== -1 && nextSpace < firstMatch) {
+      start = nextSpace + 1;
+    }
+  }
+
+  const end = Math.min(text.length, start + maxLength);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  return highlightTerms(`${prefix}${text.slice(start, end).trim()}${suffix}`, terms);
+}
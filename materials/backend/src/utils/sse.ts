@@ -0,0 +1,84 @@
+/**
+ * Server-Sent Events Utilities
+ * Long-lived text/event-stream responses with heartbeats and clean shutdown
+ */
+
+import { Response } from 'express';
+
+// Comment line sent while idle; keeps proxies (nginx proxy_read_timeout 30s) from
+// closing the connection
+const HEARTBEAT_MS = 15 * 1000;
+
+// Reconnect delay suggested to EventSource-compatible clients
+const RETRY_MS = 3 * 1000;
+
+export interface SseEvent {
+  event: string;
+  id?: string; // Sent back as Last-Event-ID when the client reconnects
+  data: unknown; // Serialized as JSON
+}
+
+export interface EventStream {
+  send(event: SseEvent): void;
+  onClose(listener: () => void): void;
+}
+
+// Open streams on this instance, ended during graceful shutdown
+const openStreams = new Set<Response>();
+
+/**
+ * Switch the response to an event stream
+ * @param expiresAt - end the stream at this time (ms since epoch), e.g. when the
+ *   access token expires; the client reconnects with a fresh token
+ */
+export function openEventStream(res: Response, expiresAt?: number): EventStream {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // nginx: pass events through unbuffered
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  openStreams.add(res);
+  const closeListeners: (() => void)[] = [];
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  const expiry =
+    expiresAt !== undefined
+      ? setTimeout(() => res.end(), Math.max(0, expiresAt - Date.now()))
+      : undefined;
+
+  // Client disconnected, or the stream was ended here
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    clearTimeout(expiry);
+    openStreams.delete(res);
+    closeListeners.forEach((listener) => listener());
+  });
+
+  return {
+    send(event: SseEvent): void {
+      if (res.writableEnded) return;
+      let frame = `event: ${event.event}\n`;
+      if (event.id) frame += `id: ${event.id}\n`;
+      frame += `data: ${JSON.stringify(event.data)}\n\n`;
+      res.write(frame);
+    },
+    onClose(listener: () => void): void {
+      closeListeners.push(listener);
+    },
+  };
+}
+
+/**
+ * End every open stream so the HTTP server can close (graceful shutdown)
+ * Clients reconnect to another instance.
+ */
+export function closeAllEventStreams(): void {
+  for (const res of openStreams) {
+    res.end();
+  }
+  openStreams.clear();
+}
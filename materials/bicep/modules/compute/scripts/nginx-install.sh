@@ -98,8 +98,10 @@ server {
     # API proxy to Internal Load Balancer (10.0.2.10)
     # This provides high availability across both App tier VMs
     # Note: NO trailing slash - preserves /api prefix (backend expects /api/posts)
-    location /api/ {
+    # ^~ stops the static asset regex below from catching uploaded images under /api/media/
+    location ^~ /api/ {
         proxy_pass http://10.0.2.10:3000;
+        client_max_body_size 10m;
         proxy_http_version 1.1;
         proxy_set_header Host $host;
         proxy_set_header X-Real-IP $remote_addr;
@@ -110,6 +112,17 @@ server {
         proxy_read_timeout 30s;
     }
 
+    # Syndication feeds are generated by the backend (/feed.xml, /atom.xml,
+    # /users/:username/feed.xml, /tags/:tag/atom.xml, ...)
+    location ~ ^/((users|tags)/[^/]+/)?(feed|atom)\.xml$ {
+        proxy_pass http://10.0.2.10:3000;
+        proxy_http_version 1.1;
+        proxy_set_header Host $host;
+        proxy_set_header X-Real-IP $remote_addr;
+        proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
+        proxy_set_header X-Forwarded-Proto $scheme;
+    }
+
     # Cache static assets
     location ~* \.(js|css|png|jpg|jpeg|gif|ico|svg|woff|woff2|ttf|eot)$ {
         expires 1y;
@@ -15,6 +15,13 @@ import EditPostPage from './pages/EditPostPage';
 import ProfilePage from './pages/ProfilePage';
 import LoginPage from './pages/LoginPage';
 import MyPostsPage from './pages/MyPostsPage';
+import SearchPage from './pages/SearchPage';
+import TagsPage from './pages/TagsPage';
+import TagPostsPage from './pages/TagPostsPage';
+import UserProfilePage from './pages/UserProfilePage';
+import DashboardPage from './pages/DashboardPage';
+import BookmarksPage from './pages/BookmarksPage';
+import UnsubscribePage from './pages/UnsubscribePage';
 
 /**
  * ProtectedRoute Component
@@ -55,7 +62,12 @@ function App() {
         {/* Public routes */}
         <Route path="/" element={<HomePage />} />
         <Route path="/posts/:slug" element={<PostPage />} />
+        <Route path="/search" element={<SearchPage />} />
+        <Route path="/tags" element={<TagsPage />} />
+        <Route path="/tags/:tag" element={<TagPostsPage />} />
+        <Route path="/users/:username" element={<UserProfilePage />} />
         <Route path="/login" element={<LoginPage />} />
+        <Route path="/unsubscribe" element={<UnsubscribePage />} />
 
         {/* Protected routes - require authentication */}
         <Route
@@ -82,6 +94,22 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/dashboard"
+          element={
+            <ProtectedRoute>
+              <DashboardPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/bookmarks"
+          element={
+            <ProtectedRoute>
+              <BookmarksPage />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/profile"
           element={
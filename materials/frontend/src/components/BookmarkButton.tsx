@@ -0,0 +1,52 @@
+/**
+ * Bookmark Button Component
+ * Saves a post to, or removes it from, the signed-in reader's bookmarks
+ */
+
+import { useState } from 'react';
+import { addBookmark, removeBookmark } from '../services/api';
+
+interface BookmarkButtonProps {
+  slug: string;
+  initialBookmarked: boolean;
+  className?: string;
+}
+
+function BookmarkButton({ slug, initialBookmarked, className = '' }: BookmarkButtonProps) {
+  const [bookmarked, setBookmarked] = useState(initialBookmarked);
+  const [saving, setSaving] = useState(false);
+
+  const handleToggle = async () => {
+    setSaving(true);
+    try {
+      if (bookmarked) {
+        await removeBookmark(slug);
+      } else {
+        await addBookmark(slug);
+      }
+      setBookmarked(!bookmarked);
+    } catch (err) {
+      console.error('Failed to update bookmark:', err);
+      alert('Failed to update bookmark. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleToggle}
+      disabled={saving}
+      aria-pressed={bookmarked}
+      className={`rounded-lg px-3 py-1 text-sm font-medium disabled:opacity-50 ${
+        bookmarked
+          ? 'bg-azure-100 text-azure-700 hover:bg-azure-200'
+          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+      } ${className}`}
+    >
+      {bookmarked ? '★ Bookmarked' : '☆ Bookmark'}
+    </button>
+  );
+}
+
+export default BookmarkButton;
@@ -0,0 +1,499 @@
+/**
+ * Comment Section Component
+ * Threaded comments for a post: listing, posting, replying, editing and deleting
+ * Reference: /design/FrontendApplicationDesign.md
+ */
+
+import { FormEvent, useEffect, useRef, useState } from 'react';
+import { useIsAuthenticated, useMsal } from '@azure/msal-react';
+import {
+  Comment,
+  createComment,
+  deleteComment,
+  getCommentReplies,
+  getCommentsByCursor,
+  toggleCommentReaction,
+  updateComment,
+} from '../services/api';
+import { useEventStream } from '../hooks/useEventStream';
+import ReactionBar from './ReactionBar';
+
+const COMMENTS_PAGE_SIZE = 20;
+const REPLIES_PAGE_SIZE = 10;
+
+// ============================================================================
+// Tree helpers - comments are kept as a nested tree in state
+// ============================================================================
+
+function updateInTree(
+  comments: Comment[],
+  id: string,
+  update: (comment: Comment) => Comment
+): Comment[] {
+  return comments.map((comment) => {
+    if (comment._id === id) return update(comment);
+    if (!comment.replies?.length) return comment;
+    return { ...comment, replies: updateInTree(comment.replies, id, update) };
+  });
+}
+
+function findInTree(comments: Comment[], id: string): Comment | undefined {
+  for (const comment of comments) {
+    if (comment._id === id) return comment;
+    const found = comment.replies ? findInTree(comment.replies, id) : undefined;
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function removeFromTree(comments: Comment[], id: string): Comment[] {
+  return comments
+    .filter((comment) => comment._id !== id)
+    .map((comment) => {
+      if (!comment.replies?.length) return comment;
+      const replies = removeFromTree(comment.replies, id);
+      if (replies.length === comment.replies.length) return comment;
+      return { ...comment, replies, replyCount: Math.max(0, (comment.replyCount ?? 1) - 1) };
+    });
+}
+
+/**
+ * Add a new comment: top-level comments first, replies last under their parent
+ * Unchanged when a reply's parent isn't loaded
+ */
+function insertComment(comments: Comment[], comment: Comment): Comment[] {
+  const entry = { ...comment, replyCount: 0, replies: [] };
+  if (!comment.parentComment) return [entry, ...comments];
+  return updateInTree(comments, comment.parentComment, (parent) => ({
+    ...parent,
+    replies: [...(parent.replies ?? []), entry],
+    replyCount: (parent.replyCount ?? 0) + 1,
+  }));
+}
+
+function mergeComments(existing: Comment[], incoming: Comment[]): Comment[] {
+  const seen = new Set(existing.map((comment) => comment._id));
+  return [...existing, ...incoming.filter((comment) => !seen.has(comment._id))];
+}
+
+/**
+ * Convert sanitized comment HTML back to the plain text the author typed
+ * (e.g. "&amp;" -> "&") so editing doesn't double-escape entities
+ */
+function htmlToText(html: string): string {
+  return new DOMParser().parseFromString(html, 'text/html').documentElement.textContent ?? '';
+}
+
+// ============================================================================
+// Comment form (new comment, reply, edit)
+// ============================================================================
+
+interface CommentFormProps {
+  initialValue?: string;
+  submitLabel: string;
+  placeholder?: string;
+  autoFocus?: boolean;
+  onSubmit: (content: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+function CommentForm({
+  initialValue = '',
+  submitLabel,
+  placeholder = 'Write a comment...',
+  autoFocus = false,
+  onSubmit,
+  onCancel,
+}: CommentFormProps) {
+  const [content, setContent] = useState(initialValue);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = content.trim();
+    if (!trimmed) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      await onSubmit(trimmed);
+      setContent('');
+    } catch (err) {
+      setError('Failed to save comment. Please try again.');
+      console.error(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      {error && <div className="rounded-lg bg-red-50 p-2 text-sm text-red-600">{error}</div>}
+      <textarea
+        required
+        rows={3}
+        maxLength={2000}
+        autoFocus={autoFocus}
+        className="input resize-y text-sm"
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={placeholder}
+      />
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={submitting || !content.trim()}
+          className="btn-primary text-sm"
+        >
+          {submitting ? 'Saving...' : submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="btn-secondary text-sm">
+            Cancel
+          </button>
+        )}
+        <span className="ml-auto text-xs text-gray-400">{content.length}/2000</span>
+      </div>
+    </form>
+  );
+}
+
+// ============================================================================
+// Single comment with its replies
+// ============================================================================
+
+interface CommentItemProps {
+  comment: Comment;
+  currentUserOid?: string;
+  canReply: boolean;
+  onReply: (parentId: string, content: string) => Promise<void>;
+  onEdit: (id: string, content: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onLoadMoreReplies: (id: string) => Promise<void>;
+}
+
+function CommentItem({
+  comment,
+  currentUserOid,
+  canReply,
+  onReply,
+  onEdit,
+  onDelete,
+  onLoadMoreReplies,
+}: CommentItemProps) {
+  const [mode, setMode] = useState<'view' | 'reply' | 'edit'>('view');
+  const [busy, setBusy] = useState(false);
+
+  const isOwn = !!currentUserOid && comment.author?.oid === currentUserOid;
+  const replies = comment.replies ?? [];
+  const remainingReplies = (comment.replyCount ?? 0) - replies.length;
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this comment?')) return;
+    setBusy(true);
+    try {
+      await onDelete(comment._id);
+    } catch (err) {
+      console.error('Failed to delete comment:', err);
+      alert('Failed to delete comment. Please try again.');
+      setBusy(false);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    setBusy(true);
+    try {
+      await onLoadMoreReplies(comment._id);
+    } catch (err) {
+      console.error('Failed to load replies:', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <li>
+      <div className="rounded-lg border border-gray-100 bg-white p-4">
+        <div className="mb-2 flex items-center gap-2 text-sm text-gray-500">
+          <span className="font-medium text-gray-900">
+            {comment.author?.displayName ?? 'Anonymous'}
+          </span>
+          <span>•</span>
+          <span>{new Date(comment.createdAt).toLocaleString()}</span>
+          {comment.isEdited && <span className="italic text-gray-400">(edited)</span>}
+        </div>
+
+        {mode === 'edit' ? (
+          <CommentForm
+            initialValue={htmlToText(comment.content)}
+            submitLabel="Save"
+            autoFocus
+            onSubmit={async (content) => {
+              await onEdit(comment._id, content);
+              setMode('view');
+            }}
+            onCancel={() => setMode('view')}
+          />
+        ) : (
+          // Content is sanitized server-side (see backend utils/sanitize.ts)
+          <div
+            className="whitespace-pre-wrap text-gray-800"
+            dangerouslySetInnerHTML={{ __html: comment.content }}
+          />
+        )}
+
+        {/* Kept mounted while editing so local reaction state survives */}
+        <div className="mt-2">
+          <ReactionBar
+            reactions={comment.reactions}
+            canReact={canReply}
+            compact
+            onToggle={async (type) => (await toggleCommentReaction(comment._id, type)).reactions}
+          />
+        </div>
+
+        {mode === 'view' && (
+          <div className="mt-2 flex items-center gap-4 text-sm">
+            {canReply && (
+              <button onClick={() => setMode('reply')} className="link">
+                Reply
+              </button>
+            )}
+            {isOwn && (
+              <>
+                <button onClick={() => setMode('edit')} className="link">
+                  Edit
+                </button>
+                <button
+                  onClick={handleDelete}
+                  disabled={busy}
+                  className="text-red-600 hover:underline disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {mode === 'reply' && (
+        <div className="ml-6 mt-2">
+          <CommentForm
+            submitLabel="Reply"
+            placeholder={`Reply to ${comment.author?.displayName ?? 'this comment'}...`}
+            autoFocus
+            onSubmit={async (content) => {
+              await onReply(comment._id, content);
+              setMode('view');
+            }}
+            onCancel={() => setMode('view')}
+          />
+        </div>
+      )}
+
+      {(replies.length > 0 || remainingReplies > 0) && (
+        <div className="ml-6 mt-2 border-l-2 border-gray-100 pl-4">
+          {replies.length > 0 && (
+            <ul className="space-y-2">
+              {replies.map((reply) => (
+                <CommentItem
+                  key={reply._id}
+                  comment={reply}
+                  currentUserOid={currentUserOid}
+                  canReply={canReply}
+                  onReply={onReply}
+                  onEdit={onEdit}
+                  onDelete={onDelete}
+                  onLoadMoreReplies={onLoadMoreReplies}
+                />
+              ))}
+            </ul>
+          )}
+          {remainingReplies > 0 && (
+            <button
+              onClick={handleLoadMore}
+              disabled={busy}
+              className="link mt-2 text-sm disabled:opacity-50"
+            >
+              {busy
+                ? 'Loading...'
+                : `View ${remainingReplies} more ${remainingReplies === 1 ? 'reply' : 'replies'}`}
+            </button>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+// ============================================================================
+// Comment section
+// ============================================================================
+
+interface CommentSectionProps {
+  slug: string;
+}
+
+function CommentSection({ slug }: CommentSectionProps) {
+  const isAuthenticated = useIsAuthenticated();
+  const { accounts } = useMsal();
+  const currentUserOid = accounts[0]?.localAccountId;
+
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [total, setTotal] = useState(0);
+  // Keyset cursor: comments arriving over the stream don't shift later pages
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Comments added since the list loaded, by this tab or from the stream; the
+  // stream also delivers this tab's own comments
+  const addedIds = useRef(new Set<string>());
+
+  const addComment = (comment: Comment) => {
+    if (addedIds.current.has(comment._id)) return;
+    addedIds.current.add(comment._id);
+    setComments((prev) => insertComment(prev, comment));
+    if (!comment.parentComment) setTotal((prev) => prev + 1);
+  };
+
+  useEventStream<{ comment: Comment }>(`/api/posts/${encodeURIComponent(slug)}/comments/stream`, {
+    comment: (comment) => {
+      if (!findInTree(comments, comment._id)) addComment(comment);
+    },
+  });
+
+  useEffect(() => {
+    async function fetchComments() {
+      try {
+        const data = await getCommentsByCursor(slug, '', COMMENTS_PAGE_SIZE);
+        setComments(data.comments);
+        setTotal(data.total ?? data.comments.length);
+        setNextCursor(data.nextCursor);
+      } catch (err) {
+        setError('Failed to load comments');
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchComments();
+  }, [slug]);
+
+  const handleLoadMoreComments = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const data = await getCommentsByCursor(slug, nextCursor, COMMENTS_PAGE_SIZE);
+      setComments((prev) => mergeComments(prev, data.comments));
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      console.error('Failed to load more comments:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleCreate = async (content: string) => {
+    addComment(await createComment(slug, content));
+  };
+
+  const handleReply = async (parentId: string, content: string) => {
+    addComment(await createComment(slug, content, parentId));
+  };
+
+  const handleEdit = async (id: string, content: string) => {
+    const updated = await updateComment(id, content);
+    setComments((prev) =>
+      updateInTree(prev, id, (comment) => ({
+        ...comment,
+        content: updated.content,
+        isEdited: updated.isEdited,
+        updatedAt: updated.updatedAt,
+      }))
+    );
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteComment(id);
+    const isTopLevel = comments.some((comment) => comment._id === id);
+    setComments((prev) => removeFromTree(prev, id));
+    if (isTopLevel) setTotal((prev) => Math.max(0, prev - 1));
+  };
+
+  const handleLoadMoreReplies = async (id: string) => {
+    const loaded = findInTree(comments, id)?.replies?.length ?? 0;
+    // Replies are fetched in fixed-size pages; already-loaded ones are de-duplicated
+    const nextPage = Math.floor(loaded / REPLIES_PAGE_SIZE) + 1;
+    const data = await getCommentReplies(id, nextPage, REPLIES_PAGE_SIZE);
+    setComments((prev) =>
+      updateInTree(prev, id, (comment) => ({
+        ...comment,
+        replies: mergeComments(comment.replies ?? [], data.comments),
+        replyCount: data.total,
+      }))
+    );
+  };
+
+  return (
+    <section className="mt-12 border-t border-gray-200 pt-8">
+      <h2 className="mb-6 text-2xl font-bold text-gray-900">Comments ({total})</h2>
+
+      {isAuthenticated ? (
+        <div className="mb-8">
+          <CommentForm submitLabel="Post Comment" onSubmit={handleCreate} />
+        </div>
+      ) : (
+        <div className="mb-8 rounded-lg bg-gray-50 p-4 text-sm text-gray-600">
+          Sign in to join the discussion.
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <div className="h-6 w-6 animate-spin rounded-full border-4 border-azure-600 border-t-transparent"></div>
+        </div>
+      ) : error ? (
+        <div className="rounded-lg bg-red-50 p-4 text-center text-red-600">{error}</div>
+      ) : comments.length === 0 ? (
+        <p className="text-gray-500">No comments yet.</p>
+      ) : (
+        <>
+          <ul className="space-y-4">
+            {comments.map((comment) => (
+              <CommentItem
+                key={comment._id}
+                comment={comment}
+                currentUserOid={currentUserOid}
+                canReply={isAuthenticated}
+                onReply={handleReply}
+                onEdit={handleEdit}
+                onDelete={handleDelete}
+                onLoadMoreReplies={handleLoadMoreReplies}
+              />
+            ))}
+          </ul>
+
+          {nextCursor && (
+            <div className="mt-6 text-center">
+              <button
+                onClick={handleLoadMoreComments}
+                disabled={loadingMore}
+                className="btn-secondary text-sm"
+              >
+                {loadingMore ? 'Loading...' : 'Load more comments'}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
+
+export default CommentSection;
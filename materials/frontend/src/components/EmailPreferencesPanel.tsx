@@ -0,0 +1,109 @@
+/**
+ * Email Preferences Panel Component
+ * Chooses which notification emails the signed-in user receives; each change saves at once
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  EmailFrequency,
+  EmailPreferences,
+  getEmailPreferences,
+  updateEmailPreferences,
+} from '../services/api';
+
+const CATEGORIES: { key: keyof EmailPreferences; label: string; description: string }[] = [
+  {
+    key: 'replies',
+    label: 'Replies',
+    description: 'Someone replies to one of your comments',
+  },
+  {
+    key: 'newPosts',
+    label: 'New posts',
+    description: 'An author you follow publishes a post',
+  },
+];
+
+const FREQUENCY_LABELS: Record<EmailFrequency, string> = {
+  instant: 'Right away',
+  daily: 'Daily digest',
+  off: 'Off',
+};
+
+function EmailPreferencesPanel() {
+  const [preferences, setPreferences] = useState<EmailPreferences | null>(null);
+  const [saving, setSaving] = useState<keyof EmailPreferences | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchPreferences() {
+      try {
+        const data = await getEmailPreferences();
+        if (!cancelled) setPreferences(data);
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError('Failed to load your email preferences');
+      }
+    }
+
+    fetchPreferences();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleChange = async (key: keyof EmailPreferences, frequency: EmailFrequency) => {
+    setSaving(key);
+    setError(null);
+    try {
+      setPreferences(await updateEmailPreferences({ [key]: frequency }));
+    } catch (err) {
+      console.error(err);
+      setError('Failed to save your email preferences. Please try again.');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="card mt-8 space-y-4 p-6">
+      <h3 className="font-semibold text-gray-900">Email Notifications</h3>
+
+      {error && <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600">{error}</div>}
+
+      {preferences &&
+        CATEGORIES.map(({ key, label, description }) => (
+          <div key={key} className="flex items-center justify-between gap-4">
+            <div>
+              <label htmlFor={`email-${key}`} className="font-medium text-gray-700">
+                {label}
+              </label>
+              <p className="text-sm text-gray-500">{description}</p>
+            </div>
+            <select
+              id={`email-${key}`}
+              className="input w-40"
+              value={preferences[key]}
+              disabled={saving !== null}
+              onChange={(e) => handleChange(key, e.target.value as EmailFrequency)}
+            >
+              {(Object.keys(FREQUENCY_LABELS) as EmailFrequency[]).map((frequency) => (
+                <option key={frequency} value={frequency}>
+                  {FREQUENCY_LABELS[frequency]}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+
+      <p className="text-sm text-gray-500">
+        Emails go to the address on your Microsoft Entra ID account. Every email also has an
+        unsubscribe link.
+      </p>
+    </div>
+  );
+}
+
+export default EmailPreferencesPanel;
@@ -0,0 +1,45 @@
+/**
+ * Follow Button Component
+ * Follows or unfollows an author; reports the updated counts to the profile
+ */
+
+import { useState } from 'react';
+import { FollowResult, followUser, unfollowUser } from '../services/api';
+
+interface FollowButtonProps {
+  username: string;
+  initialFollowing: boolean;
+  onChange?: (result: FollowResult) => void;
+}
+
+function FollowButton({ username, initialFollowing, onChange }: FollowButtonProps) {
+  const [following, setFollowing] = useState(initialFollowing);
+  const [saving, setSaving] = useState(false);
+
+  const handleToggle = async () => {
+    setSaving(true);
+    try {
+      const result = following ? await unfollowUser(username) : await followUser(username);
+      setFollowing(result.following);
+      onChange?.(result);
+    } catch (err) {
+      console.error('Failed to update follow:', err);
+      alert(`Failed to ${following ? 'unfollow' : 'follow'}. Please try again.`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleToggle}
+      disabled={saving}
+      aria-pressed={following}
+      className={following ? 'btn-secondary text-sm' : 'btn-primary text-sm'}
+    >
+      {following ? 'Following' : 'Follow'}
+    </button>
+  );
+}
+
+export default FollowButton;
@@ -0,0 +1,28 @@
+/**
+ * HighlightedText Component
+ * Renders search highlight segments returned by the API, wrapping matches in <mark>
+ */
+
+import { HighlightSegment } from '../services/api';
+
+interface HighlightedTextProps {
+  segments: HighlightSegment[];
+}
+
+function HighlightedText({ segments }: HighlightedTextProps) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded bg-yellow-100 px-0.5 text-inherit">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default HighlightedText;
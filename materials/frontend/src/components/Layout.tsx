@@ -4,10 +4,11 @@
  * Reference: /design/FrontendApplicationDesign.md
  */
 
-import { ReactNode } from 'react';
-import { Link } from 'react-router-dom';
+import { FormEvent, ReactNode, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { useIsAuthenticated, useMsal } from '@azure/msal-react';
 import { createLoginRequest } from '../config/authConfig';
+import NotificationBell from './NotificationBell';
 
 interface LayoutProps {
   children: ReactNode;
@@ -20,6 +21,8 @@ interface LayoutProps {
 function Layout({ children }: LayoutProps) {
   const isAuthenticated = useIsAuthenticated();
   const { instance, accounts } = useMsal();
+  const navigate = useNavigate();
+  const [searchQuery, setSearchQuery] = useState('');
 
   const handleLogin = () => {
     instance.loginRedirect(createLoginRequest());
@@ -33,6 +36,13 @@ function Layout({ children }: LayoutProps) {
     });
   };
 
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    const q = searchQuery.trim();
+    if (!q) return;
+    navigate(`/search?q=${encodeURIComponent(q)}`);
+  };
+
   const userName = accounts[0]?.name ?? 'User';
 
   return (
@@ -45,23 +55,45 @@ function Layout({ children }: LayoutProps) {
             BlogApp
           </Link>
 
+          {/* Search */}
+          <form onSubmit={handleSearch} role="search" className="mx-6 max-w-xs flex-1">
+            <input
+              type="search"
+              aria-label="Search posts"
+              className="input py-1.5 text-sm"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search posts..."
+            />
+          </form>
+
           {/* Navigation */}
           <nav className="flex items-center space-x-6">
             <Link to="/" className="text-gray-600 hover:text-azure-600">
               Home
             </Link>
+            <Link to="/tags" className="text-gray-600 hover:text-azure-600">
+              Tags
+            </Link>
 
             {isAuthenticated ? (
               <>
+                <Link to="/dashboard" className="text-gray-600 hover:text-azure-600">
+                  Dashboard
+                </Link>
                 <Link to="/my-posts" className="text-gray-600 hover:text-azure-600">
                   My Posts
                 </Link>
                 <Link to="/create" className="text-gray-600 hover:text-azure-600">
                   Write Post
                 </Link>
+                <Link to="/bookmarks" className="text-gray-600 hover:text-azure-600">
+                  Bookmarks
+                </Link>
                 <Link to="/profile" className="text-gray-600 hover:text-azure-600">
                   Profile
                 </Link>
+                <NotificationBell />
                 <div className="flex items-center space-x-4">
                   <span className="text-sm text-gray-500">Hello, {userName}</span>
                   <button onClick={handleLogout} className="btn-secondary text-sm">
@@ -88,6 +120,16 @@ function Layout({ children }: LayoutProps) {
           <p className="mt-1">
             Built with React, TypeScript, and Microsoft Entra ID
           </p>
+          <p className="mt-1">
+            Subscribe:{' '}
+            <a href="/feed.xml" className="hover:text-azure-600">
+              RSS
+            </a>
+            {' · '}
+            <a href="/atom.xml" className="hover:text-azure-600">
+              Atom
+            </a>
+          </p>
         </div>
       </footer>
     </div>
@@ -0,0 +1,158 @@
+/**
+ * Media Picker Component
+ * Choose a featured image from the user's media library or upload a new one
+ */
+
+import { ChangeEvent, useState } from 'react';
+import { deleteMedia, getMyMedia, Media, uploadMedia } from '../services/api';
+
+// Mirrors the backend limits (MEDIA_MAX_FILE_SIZE_MB default and accepted formats)
+const MAX_FILE_SIZE_BYTES = 5 * 1024 * 1024;
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+interface MediaPickerProps {
+  value: string;
+  onChange: (url: string) => void;
+}
+
+function MediaPicker({ value, onChange }: MediaPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [media, setMedia] = useState<Media[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openLibrary = async () => {
+    setOpen(true);
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await getMyMedia(1, 48);
+      setMedia(data.media);
+    } catch (err) {
+      setError('Failed to load your media library');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!ACCEPTED_TYPES.includes(file.type)) {
+      setError('Please choose a JPEG, PNG, WebP or GIF image.');
+      return;
+    }
+    if (file.size > MAX_FILE_SIZE_BYTES) {
+      setError('Images must be 5 MB or smaller.');
+      return;
+    }
+
+    setUploading(true);
+    setError(null);
+    try {
+      const uploaded = await uploadMedia(file);
+      setMedia((prev) => [uploaded, ...prev]);
+      onChange(uploaded.url);
+    } catch (err) {
+      setError('Upload failed. Please try again.');
+      console.error(err);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (item: Media) => {
+    if (!confirm(`Delete "${item.originalName}" from your media library?`)) return;
+    try {
+      await deleteMedia(item._id);
+      setMedia((prev) => prev.filter((m) => m._id !== item._id));
+      if (value === item.url) onChange('');
+    } catch (err) {
+      setError('Failed to delete image. It may be in use by a post.');
+      console.error(err);
+    }
+  };
+
+  return (
+    <div>
+      {value ? (
+        <div className="mb-3 flex items-start gap-4">
+          <img src={value} alt="Featured" className="h-32 w-48 rounded-lg object-cover" />
+          <button type="button" onClick={() => onChange('')} className="btn-secondary text-sm">
+            Remove
+          </button>
+        </div>
+      ) : (
+        <p className="mb-3 text-sm text-gray-500">No featured image selected.</p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={open ? () => setOpen(false) : openLibrary}
+          className="btn-secondary text-sm"
+        >
+          {open ? 'Close Library' : 'Choose from Library'}
+        </button>
+        <label className="btn-secondary cursor-pointer text-sm">
+          {uploading ? 'Uploading...' : 'Upload Image'}
+          <input
+            type="file"
+            accept={ACCEPTED_TYPES.join(',')}
+            className="hidden"
+            disabled={uploading}
+            onChange={handleUpload}
+          />
+        </label>
+      </div>
+
+      {error && <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-600">{error}</div>}
+
+      {open && (
+        <div className="mt-4 rounded-lg border border-gray-200 p-4">
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : media.length === 0 ? (
+            <p className="text-sm text-gray-500">Your media library is empty.</p>
+          ) : (
+            <div className="grid grid-cols-3 gap-3 md:grid-cols-4">
+              {media.map((item) => (
+                <div key={item._id} className="group relative">
+                  <button
+                    type="button"
+                    onClick={() => onChange(item.url)}
+                    className={`block w-full overflow-hidden rounded-lg border-2 ${
+                      value === item.url ? 'border-azure-600' : 'border-transparent'
+                    }`}
+                  >
+                    <img
+                      src={item.thumbnailUrl}
+                      alt={item.originalName}
+                      className="h-24 w-full object-cover"
+                    />
+                  </button>
+                  {item.usedBy.length === 0 && (
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(item)}
+                      aria-label={`Delete ${item.originalName}`}
+                      className="absolute right-1 top-1 hidden rounded bg-white/90 px-1.5 text-xs text-red-600 group-hover:block"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MediaPicker;
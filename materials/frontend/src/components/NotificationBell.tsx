@@ -0,0 +1,248 @@
+/**
+ * Notification Bell Component
+ * Unread badge in the header with a dropdown of recent notifications
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  AppNotification,
+  getNotifications,
+  getUnreadNotificationCount,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from '../services/api';
+import { useEventStream } from '../hooks/useEventStream';
+
+// Fallback while the event stream is disconnected
+const POLL_INTERVAL_MS = 60 * 1000;
+const DROPDOWN_LIMIT = 10;
+
+/**
+ * Plain-text excerpt of sanitized comment HTML
+ */
+function excerpt(html: string): string {
+  return new DOMParser().parseFromString(html, 'text/html').documentElement.textContent ?? '';
+}
+
+function describe(notification: AppNotification): string {
+  const actor = notification.actor?.displayName ?? 'Someone';
+  const title = notification.post?.title ?? 'a deleted post';
+
+  switch (notification.type) {
+    case 'comment':
+      return `${actor} commented on "${title}"`;
+    case 'reply':
+      return `${actor} replied to your comment on "${title}"`;
+    case 'reaction':
+      return notification.comment
+        ? `${actor} reacted to your comment on "${title}"`
+        : `${actor} reacted to your post "${title}"`;
+    case 'follow':
+      return `${actor} started following you`;
+  }
+}
+
+function linkFor(notification: AppNotification): string | null {
+  if (notification.type === 'follow') {
+    return notification.actor ? `/users/${encodeURIComponent(notification.actor.username)}` : null;
+  }
+  return notification.post ? `/posts/${notification.post.slug}` : null;
+}
+
+function NotificationBell() {
+  const navigate = useNavigate();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const { connected } = useEventStream<{
+    unread: { unreadCount: number };
+    notification: { notification: AppNotification; unreadCount: number };
+  }>(
+    '/api/notifications/stream',
+    {
+      unread: (data) => setUnreadCount(data.unreadCount),
+      notification: (data) => {
+        setUnreadCount(data.unreadCount);
+        setNotifications(
+          (prev) =>
+            prev &&
+            (prev.some((n) => n._id === data.notification._id)
+              ? prev
+              : [data.notification, ...prev].slice(0, DROPDOWN_LIMIT))
+        );
+      },
+    },
+    'required'
+  );
+
+  // Poll the unread count until the stream connects (it sends the count itself);
+  // the list is only loaded when the dropdown opens
+  useEffect(() => {
+    if (connected) return;
+    let cancelled = false;
+
+    async function fetchUnreadCount() {
+      try {
+        const count = await getUnreadNotificationCount();
+        if (!cancelled) setUnreadCount(count);
+      } catch (err) {
+        console.error('Failed to load unread notifications:', err);
+      }
+    }
+
+    fetchUnreadCount();
+    const timer = window.setInterval(fetchUnreadCount, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [connected]);
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (!open) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [open]);
+
+  const handleToggle = async () => {
+    if (open) {
+      setOpen(false);
+      return;
+    }
+
+    setOpen(true);
+    setError(null);
+    try {
+      const data = await getNotifications(undefined, DROPDOWN_LIMIT);
+      setNotifications(data.notifications);
+      setUnreadCount(data.unreadCount);
+    } catch (err) {
+      setError('Failed to load notifications');
+      console.error(err);
+    }
+  };
+
+  const handleSelect = async (notification: AppNotification) => {
+    setOpen(false);
+    const link = linkFor(notification);
+    if (link) navigate(link);
+
+    if (notification.readAt) return;
+    try {
+      setUnreadCount(await markNotificationRead(notification._id));
+      setNotifications(
+        (prev) =>
+          prev?.map((n) =>
+            n._id === notification._id ? { ...n, readAt: new Date().toISOString() } : n
+          ) ?? null
+      );
+    } catch (err) {
+      console.error('Failed to mark notification as read:', err);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      setUnreadCount(await markAllNotificationsRead());
+      const readAt = new Date().toISOString();
+      setNotifications((prev) => prev?.map((n) => ({ ...n, readAt: n.readAt ?? readAt })) ?? null);
+    } catch (err) {
+      console.error('Failed to mark notifications as read:', err);
+      alert('Failed to mark notifications as read. Please try again.');
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={handleToggle}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-expanded={open}
+        className="relative text-gray-600 hover:text-azure-600"
+      >
+        <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+          />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -right-2 -top-2 min-w-[1.25rem] rounded-full bg-red-600 px-1 text-center text-xs font-semibold text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-80 rounded-lg border border-gray-200 bg-white shadow-lg">
+          <div className="flex items-center justify-between border-b border-gray-100 px-4 py-2">
+            <span className="font-semibold text-gray-900">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-sm text-azure-600 hover:underline"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          {error ? (
+            <p className="p-4 text-center text-sm text-red-600">{error}</p>
+          ) : !notifications ? (
+            <div className="flex justify-center p-4">
+              <div className="h-6 w-6 animate-spin rounded-full border-4 border-azure-600 border-t-transparent"></div>
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="p-4 text-center text-sm text-gray-500">No notifications yet.</p>
+          ) : (
+            <ul className="max-h-96 divide-y divide-gray-100 overflow-y-auto">
+              {notifications.map((notification) => (
+                <li key={notification._id}>
+                  <button
+                    onClick={() => handleSelect(notification)}
+                    className={`block w-full px-4 py-3 text-left text-sm hover:bg-gray-50 ${
+                      notification.readAt ? 'text-gray-600' : 'bg-azure-50 text-gray-900'
+                    }`}
+                  >
+                    <p>{describe(notification)}</p>
+                    {notification.comment?.content && notification.type !== 'reaction' && (
+                      <p className="mt-1 truncate text-gray-500">
+                        {excerpt(notification.comment.content)}
+                      </p>
+                    )}
+                    <p className="mt-1 text-xs text-gray-400">
+                      {new Date(notification.createdAt).toLocaleString()}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default NotificationBell;
@@ -0,0 +1,59 @@
+/**
+ * Post Card Component
+ * Summary card for a published post in post listings
+ */
+
+import { Link } from 'react-router-dom';
+import { Post } from '../services/api';
+import { ReactionCounts } from './ReactionBar';
+
+interface PostCardProps {
+  post: Post;
+}
+
+function PostCard({ post }: PostCardProps) {
+  return (
+    <article className="card overflow-hidden">
+      {post.featuredImageUrl && (
+        <img src={post.featuredImageUrl} alt={post.title} className="h-48 w-full object-cover" />
+      )}
+      <div className="p-6">
+        <Link to={`/posts/${post.slug}`}>
+          <h2 className="mb-2 text-xl font-semibold text-gray-900 hover:text-azure-600">
+            {post.title}
+          </h2>
+        </Link>
+        {post.excerpt && <p className="mb-4 line-clamp-3 text-gray-600">{post.excerpt}</p>}
+        <div className="flex items-center justify-between text-sm text-gray-500">
+          {post.author ? (
+            <Link
+              to={`/users/${encodeURIComponent(post.author.username)}`}
+              className="hover:text-azure-600"
+            >
+              {post.author.displayName}
+            </Link>
+          ) : (
+            <span>Anonymous</span>
+          )}
+          <span>{post.publishedAt ? new Date(post.publishedAt).toLocaleDateString() : ''}</span>
+        </div>
+        <ReactionCounts reactions={post.reactions} />
+        {post.tags && post.tags.length > 0 && (
+          <div className="mt-4 flex flex-wrap gap-2">
+            {post.tags.slice(0, 3).map((tag) => (
+              <Link
+                key={tag}
+                to={`/tags/${encodeURIComponent(tag)}`}
+                className="rounded-full bg-azure-100 px-2 py-1 text-xs text-azure-700 hover:bg-azure-200"
+              >
+                {tag}
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </article>
+  );
+}
+
+export default PostCard;
@@ -0,0 +1,134 @@
+/**
+ * Post Stats Panel Component
+ * Views-over-time bar chart for one of the author's posts
+ */
+
+import { useEffect, useState } from 'react';
+import { getPostStats, PostStats } from '../services/api';
+
+const RANGES = [7, 30, 90];
+
+const CHART_HEIGHT = 120;
+
+interface PostStatsPanelProps {
+  slug: string;
+}
+
+function ViewsChart({ daily }: { daily: PostStats['daily'] }) {
+  const max = Math.max(1, ...daily.map((bucket) => bucket.views));
+  const barWidth = 100 / daily.length;
+  const first = daily[0];
+  const last = daily[daily.length - 1];
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 100 ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="h-32 w-full"
+        role="img"
+        aria-label="Views per day"
+      >
+        {daily.map((bucket, index) => {
+          const height = (bucket.views / max) * CHART_HEIGHT;
+          return (
+            <rect
+              key={bucket.day}
+              x={index * barWidth + barWidth * 0.1}
+              y={CHART_HEIGHT - height}
+              width={barWidth * 0.8}
+              height={height}
+              className="fill-azure-500"
+            >
+              <title>{`${bucket.day}: ${bucket.views} views`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      <div className="mt-1 flex justify-between text-xs text-gray-400">
+        <span>{first?.day}</span>
+        <span>max {max}/day</span>
+        <span>{last?.day}</span>
+      </div>
+    </div>
+  );
+}
+
+function PostStatsPanel({ slug }: PostStatsPanelProps) {
+  const [days, setDays] = useState(30);
+  const requestKey = `${slug}:${days}`;
+
+  // Tagged with the request it answers; stale while slug or range differ
+  const [result, setResult] = useState<{ key: string; stats?: PostStats; error?: string } | null>(
+    null
+  );
+  const loading = result?.key !== requestKey;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchStats() {
+      const key = `${slug}:${days}`;
+      try {
+        const stats = await getPostStats(slug, days);
+        if (!cancelled) setResult({ key, stats });
+      } catch (err) {
+        if (!cancelled) setResult({ key, error: 'Failed to load stats' });
+        console.error(err);
+      }
+    }
+
+    fetchStats();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug, days]);
+
+  return (
+    <div className="mt-4 border-t border-gray-100 pt-4">
+      <div className="mb-3 flex items-center justify-between">
+        <div className="text-sm text-gray-600">
+          {result?.stats && !loading && (
+            <>
+              <span className="font-semibold text-gray-900">{result.stats.periodViews}</span> views
+              in the last {result.stats.days} days ·{' '}
+              <span className="font-semibold text-gray-900">{result.stats.totalViews}</span> total
+            </>
+          )}
+        </div>
+        <div className="flex gap-1">
+          {RANGES.map((range) => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              className={`rounded px-2 py-1 text-xs font-medium ${
+                days === range
+                  ? 'bg-azure-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {range}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex h-32 items-center justify-center">
+          <div className="h-6 w-6 animate-spin rounded-full border-4 border-azure-600 border-t-transparent"></div>
+        </div>
+      ) : result?.error ? (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600">{result.error}</div>
+      ) : (
+        result?.stats && <ViewsChart daily={result.stats.daily} />
+      )}
+
+      <p className="mt-2 text-xs text-gray-400">
+        Repeat views, your own views and known bots are not counted. Days are in UTC.
+      </p>
+    </div>
+  );
+}
+
+export default PostStatsPanel;
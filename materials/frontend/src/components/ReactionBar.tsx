@@ -0,0 +1,127 @@
+/**
+ * Reaction Bar Component
+ * Emoji reaction counts with toggle buttons for posts and comments
+ */
+
+import { useState } from 'react';
+import { REACTION_TYPES, ReactionSummary, ReactionType } from '../services/api';
+
+const REACTION_EMOJI: Record<ReactionType, string> = {
+  like: '👍',
+  love: '❤️',
+  laugh: '😂',
+  wow: '😮',
+  celebrate: '🎉',
+};
+
+const EMPTY_SUMMARY: ReactionSummary = { counts: {}, reactedByMe: [] };
+
+/**
+ * Apply a toggle locally so the button responds before the API does
+ */
+function toggleLocally(summary: ReactionSummary, type: ReactionType): ReactionSummary {
+  const reacted = summary.reactedByMe.includes(type);
+  const count = Math.max(0, (summary.counts[type] ?? 0) + (reacted ? -1 : 1));
+  return {
+    counts: { ...summary.counts, [type]: count || undefined },
+    reactedByMe: reacted
+      ? summary.reactedByMe.filter((t) => t !== type)
+      : [...summary.reactedByMe, type],
+  };
+}
+
+interface ReactionCountsProps {
+  reactions?: ReactionSummary;
+}
+
+/**
+ * Read-only summary for post cards
+ */
+export function ReactionCounts({ reactions }: ReactionCountsProps) {
+  const used = REACTION_TYPES.filter((type) => (reactions?.counts[type] ?? 0) > 0);
+  if (used.length === 0) return null;
+
+  return (
+    <div className="mt-3 flex flex-wrap gap-2 text-sm text-gray-500">
+      {used.map((type) => (
+        <span key={type} title={type}>
+          {REACTION_EMOJI[type]} {reactions?.counts[type]}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+interface ReactionBarProps {
+  reactions?: ReactionSummary;
+  canReact: boolean;
+  onToggle: (type: ReactionType) => Promise<ReactionSummary>;
+  // Only show used types plus an "add reaction" button (for comments)
+  compact?: boolean;
+}
+
+function ReactionBar({ reactions, canReact, onToggle, compact = false }: ReactionBarProps) {
+  const [summary, setSummary] = useState<ReactionSummary>(reactions ?? EMPTY_SUMMARY);
+  const [pending, setPending] = useState<ReactionType | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  const handleToggle = async (type: ReactionType) => {
+    if (!canReact || pending) return;
+
+    const previous = summary;
+    setSummary(toggleLocally(summary, type));
+    setPending(type);
+    try {
+      setSummary(await onToggle(type));
+    } catch (err) {
+      setSummary(previous);
+      console.error('Failed to update reaction:', err);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const isUsed = (type: ReactionType) => (summary.counts[type] ?? 0) > 0;
+  const visible =
+    compact && !expanded
+      ? REACTION_TYPES.filter(isUsed)
+      : REACTION_TYPES.filter((type) => canReact || isUsed(type));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {visible.map((type) => {
+        const mine = summary.reactedByMe.includes(type);
+        return (
+          <button
+            key={type}
+            type="button"
+            onClick={() => handleToggle(type)}
+            disabled={!canReact || pending !== null}
+            title={canReact ? type : 'Sign in to react'}
+            aria-pressed={mine}
+            className={`rounded-full border px-2 py-0.5 text-sm transition-colors disabled:cursor-default ${
+              mine
+                ? 'border-azure-300 bg-azure-50 text-azure-700'
+                : 'border-gray-200 text-gray-600 enabled:hover:bg-gray-50'
+            }`}
+          >
+            {REACTION_EMOJI[type]}
+            {isUsed(type) && <span className="ml-1">{summary.counts[type]}</span>}
+          </button>
+        );
+      })}
+      {compact && canReact && !expanded && (
+        <button
+          type="button"
+          onClick={() => setExpanded(true)}
+          title="Add reaction"
+          className="rounded-full border border-gray-200 px-2 py-0.5 text-sm text-gray-400 hover:bg-gray-50"
+        >
+          +
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default ReactionBar;
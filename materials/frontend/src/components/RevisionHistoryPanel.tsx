@@ -0,0 +1,236 @@
+/**
+ * Revision History Panel Component
+ * Lists post revisions, shows a diff between any two and restores older ones
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  DiffChange,
+  getRevisionDiff,
+  getRevisions,
+  Post,
+  PostRevision,
+  restoreRevision,
+  RevisionDiff,
+} from '../services/api';
+
+interface RevisionHistoryPanelProps {
+  slug: string;
+  onRestored: (post: Post) => void;
+}
+
+function DiffView({ changes }: { changes: DiffChange[] }) {
+  return (
+    <pre className="overflow-x-auto whitespace-pre-wrap rounded bg-gray-50 p-3 font-mono text-sm">
+      {changes.map((change, index) => (
+        <span
+          key={index}
+          className={
+            change.added
+              ? 'bg-green-100 text-green-800'
+              : change.removed
+                ? 'bg-red-100 text-red-800 line-through'
+                : 'text-gray-700'
+          }
+        >
+          {change.value}
+        </span>
+      ))}
+    </pre>
+  );
+}
+
+function hasChanges(changes: DiffChange[]): boolean {
+  return changes.some((change) => change.added || change.removed);
+}
+
+function RevisionHistoryPanel({ slug, onRestored }: RevisionHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    async function fetchRevisions() {
+      try {
+        const data = await getRevisions(slug, 1, 50);
+        setRevisions(data.revisions);
+        // Default comparison: previous revision -> latest
+        setTo(data.revisions[0]?.revision ?? null);
+        setFrom(data.revisions[1]?.revision ?? null);
+      } catch (err) {
+        setError('Failed to load revision history');
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchRevisions();
+  }, [slug, reloadKey]);
+
+  useEffect(() => {
+    if (from === null || to === null) return;
+
+    let cancelled = false;
+
+    async function fetchDiff(fromRevision: number, toRevision: number) {
+      try {
+        const data = await getRevisionDiff(slug, fromRevision, toRevision);
+        if (!cancelled) setDiff(data);
+      } catch (err) {
+        console.error('Failed to load diff:', err);
+      }
+    }
+
+    fetchDiff(from, to);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug, from, to]);
+
+  const handleRestore = async (revision: number) => {
+    if (!confirm(`Restore revision ${revision}? Your current version stays in the history.`)) {
+      return;
+    }
+
+    try {
+      setRestoring(true);
+      const post = await restoreRevision(slug, revision);
+      onRestored(post);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      console.error('Failed to restore revision:', err);
+      alert('Failed to restore revision. Please try again.');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const latest = revisions[0]?.revision;
+  const showDiff = diff !== null && diff.from === from && diff.to === to;
+
+  return (
+    <section className="card mt-10 p-6">
+      <h2 className="mb-4 text-xl font-semibold text-gray-900">Revision History</h2>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : error ? (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600">{error}</div>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-gray-500">No revisions recorded yet.</p>
+      ) : (
+        <>
+          <ul className="mb-6 divide-y divide-gray-100">
+            {revisions.map((revision) => (
+              <li key={revision._id} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">#{revision.revision}</span>
+                  <span className="ml-2 text-gray-600">{revision.title}</span>
+                  <div className="text-xs text-gray-500">
+                    {new Date(revision.createdAt).toLocaleString()}
+                    {revision.editor && <> · {revision.editor.displayName}</>}
+                    {revision.restoredFrom && <> · restored from #{revision.restoredFrom}</>}
+                  </div>
+                </div>
+                {revision.revision !== latest && (
+                  <button
+                    type="button"
+                    onClick={() => handleRestore(revision.revision)}
+                    disabled={restoring}
+                    className="rounded-lg bg-gray-100 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {revisions.length > 1 && (
+            <div>
+              <div className="mb-4 flex items-center gap-2 text-sm">
+                <span className="text-gray-700">Compare</span>
+                <select
+                  aria-label="Compare from revision"
+                  className="input w-auto py-1"
+                  value={from ?? ''}
+                  onChange={(e) => setFrom(Number(e.target.value))}
+                >
+                  {revisions.map((revision) => (
+                    <option key={revision._id} value={revision.revision}>
+                      #{revision.revision}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-gray-700">with</span>
+                <select
+                  aria-label="Compare to revision"
+                  className="input w-auto py-1"
+                  value={to ?? ''}
+                  onChange={(e) => setTo(Number(e.target.value))}
+                >
+                  {revisions.map((revision) => (
+                    <option key={revision._id} value={revision.revision}>
+                      #{revision.revision}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {!showDiff ? (
+                <p className="text-sm text-gray-500">Loading diff...</p>
+              ) : (
+                <div className="space-y-4">
+                  {hasChanges(diff.title) && (
+                    <div>
+                      <h3 className="mb-1 text-sm font-medium text-gray-700">Title</h3>
+                      <DiffView changes={diff.title} />
+                    </div>
+                  )}
+                  {hasChanges(diff.excerpt) && (
+                    <div>
+                      <h3 className="mb-1 text-sm font-medium text-gray-700">Excerpt</h3>
+                      <DiffView changes={diff.excerpt} />
+                    </div>
+                  )}
+                  {(diff.tags.added.length > 0 || diff.tags.removed.length > 0) && (
+                    <div className="text-sm">
+                      <h3 className="mb-1 font-medium text-gray-700">Tags</h3>
+                      {diff.tags.added.map((tag) => (
+                        <span key={`+${tag}`} className="mr-2 text-green-700">
+                          +{tag}
+                        </span>
+                      ))}
+                      {diff.tags.removed.map((tag) => (
+                        <span key={`-${tag}`} className="mr-2 text-red-700 line-through">
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <div>
+                    <h3 className="mb-1 text-sm font-medium text-gray-700">Content</h3>
+                    {hasChanges(diff.content) ? (
+                      <DiffView changes={diff.content} />
+                    ) : (
+                      <p className="text-sm text-gray-500">No content changes.</p>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
+
+export default RevisionHistoryPanel;
@@ -0,0 +1,165 @@
+/**
+ * Event Stream Hook
+ * Subscribes to a Server-Sent Events endpoint and keeps the subscription alive:
+ * reconnects with backoff, refreshes the access token on every attempt and sends
+ * Last-Event-ID so the server can replay events missed while disconnected
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { AuthMode, openEventStream } from '../services/api';
+
+const RETRY_MIN_MS = 1000;
+const RETRY_MAX_MS = 30 * 1000;
+
+// Client errors that another attempt won't fix (e.g. 404 for an unpublished post);
+// 401 is retried because the next attempt acquires a fresh token
+const RETRYABLE_CLIENT_ERRORS = [401, 408, 429];
+
+export type EventHandlers<E> = { [K in keyof E]?: (data: E[K]) => void };
+
+interface StreamEvent {
+  event: string;
+  id?: string;
+  data: string;
+}
+
+/**
+ * Parse a text/event-stream body, calling onEvent for each complete event
+ * Resolves when the server ends the stream.
+ */
+async function readEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: StreamEvent) => void
+): Promise<void> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let event = 'message';
+  let id: string | undefined;
+  let data: string[] = [];
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const rawLine of lines) {
+      const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+
+      // A blank line dispatches the event
+      if (line === '') {
+        if (data.length > 0) onEvent({ event, id, data: data.join('\n') });
+        event = 'message';
+        id = undefined;
+        data = [];
+        continue;
+      }
+      if (line.startsWith(':')) continue; // Comment (heartbeat)
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const fieldValue = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'event') event = fieldValue;
+      else if (field === 'id') id = fieldValue;
+      else if (field === 'data') data.push(fieldValue);
+    }
+  }
+}
+
+/**
+ * Resolve after a delay, or straight away when the signal aborts
+ */
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Subscribe to an event stream for as long as the component is mounted
+ *
+ * @param path - API path of the stream; null disconnects
+ * @param handlers - callback per event name, called with the parsed JSON data
+ * @returns whether the stream is currently connected (e.g. to fall back to polling)
+ *
+ * Usage: useEventStream<{ comment: Comment }>(`/api/posts/${slug}/comments/stream`, {
+ *   comment: (comment) => ...,
+ * });
+ */
+export function useEventStream<E extends Record<string, unknown>>(
+  path: string | null,
+  handlers: EventHandlers<E>,
+  authMode: AuthMode = 'none'
+): { connected: boolean } {
+  // Connection state belongs to the path it was reported for
+  const [connectedPath, setConnectedPath] = useState<string | null>(null);
+
+  // Latest handlers without reconnecting when the caller passes new closures
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!path) return;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    let lastEventId: string | undefined;
+    let retryMs = RETRY_MIN_MS;
+
+    async function run(streamPath: string) {
+      while (!signal.aborted) {
+        try {
+          const response = await openEventStream(streamPath, authMode, signal, lastEventId);
+          if (!response.ok || !response.body) {
+            if (
+              response.status >= 400 &&
+              response.status < 500 &&
+              !RETRYABLE_CLIENT_ERRORS.includes(response.status)
+            ) {
+              console.error(`Event stream ${streamPath} rejected with ${response.status}`);
+              return;
+            }
+            throw new Error(`Event stream responded with ${response.status}`);
+          }
+
+          setConnectedPath(streamPath);
+          retryMs = RETRY_MIN_MS;
+          await readEvents(response.body, (event) => {
+            if (event.id) lastEventId = event.id;
+            const handler = handlersRef.current[event.event as keyof E];
+            handler?.(JSON.parse(event.data));
+          });
+        } catch (err) {
+          if (signal.aborted) return;
+          console.error('Event stream error:', err);
+        }
+
+        // Stream ended or failed: reconnect after a jittered delay so clients of an
+        // instance that shut down don't all reconnect at once
+        setConnectedPath(null);
+        await wait(retryMs * (0.5 + Math.random() / 2), signal);
+        retryMs = Math.min(retryMs * 2, RETRY_MAX_MS);
+      }
+    }
+
+    run(path);
+
+    return () => {
+      controller.abort();
+    };
+  }, [path, authMode]);
+
+  return { connected: path !== null && connectedPath === path };
+}
@@ -0,0 +1,156 @@
+/**
+ * Bookmarks Page Component
+ * The signed-in reader's saved posts
+ */
+
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { BookmarksResponse, getBookmarks, removeBookmark } from '../services/api';
+import PostCard from '../components/PostCard';
+
+const PAGE_SIZE = 12;
+
+function BookmarksPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const page = Number(searchParams.get('page')) || 1;
+
+  const [result, setResult] = useState<{ page: number; data: BookmarksResponse } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [removingSlug, setRemovingSlug] = useState<string | null>(null);
+
+  // Results are stale while the page in the URL differs from the last response
+  const loading = result?.page !== page;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchBookmarks() {
+      try {
+        const data = await getBookmarks(page, PAGE_SIZE);
+        if (!cancelled) {
+          setResult({ page, data });
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError('Failed to load your bookmarks');
+        }
+        console.error(err);
+      }
+    }
+
+    fetchBookmarks();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [page]);
+
+  const goToPage = (nextPage: number) => {
+    setSearchParams({ page: String(nextPage) });
+  };
+
+  const handleRemove = async (slug: string) => {
+    try {
+      setRemovingSlug(slug);
+      await removeBookmark(slug);
+      setResult(
+        (prev) =>
+          prev && {
+            ...prev,
+            data: {
+              ...prev.data,
+              posts: prev.data.posts.filter((post) => post.slug !== slug),
+              total: prev.data.total - 1,
+            },
+          }
+      );
+    } catch (err) {
+      console.error('Failed to remove bookmark:', err);
+      alert('Failed to remove bookmark. Please try again.');
+    } finally {
+      setRemovingSlug(null);
+    }
+  };
+
+  const header = <h1 className="mb-8 text-3xl font-bold text-gray-900">Bookmarks</h1>;
+
+  if (error) {
+    return (
+      <div>
+        {header}
+        <div className="rounded-lg bg-red-50 p-4 text-center text-red-600">{error}</div>
+      </div>
+    );
+  }
+
+  if (loading || !result) {
+    return (
+      <div>
+        {header}
+        <div className="flex items-center justify-center py-12">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-azure-600 border-t-transparent"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const { posts, totalPages } = result.data;
+
+  return (
+    <div>
+      {header}
+
+      {posts.length === 0 ? (
+        <div className="rounded-lg bg-gray-50 p-8 text-center text-gray-600">
+          No bookmarks yet. Use the Bookmark button on a post to save it for later.{' '}
+          <Link to="/" className="link">
+            Browse posts
+          </Link>
+        </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {posts.map((post) => (
+            <div key={post._id}>
+              <PostCard post={post} />
+              <div className="mt-2 flex items-center justify-between px-1 text-sm text-gray-500">
+                <span>Saved {new Date(post.bookmarkedAt).toLocaleDateString()}</span>
+                <button
+                  onClick={() => handleRemove(post.slug)}
+                  disabled={removingSlug === post.slug}
+                  className="text-red-600 hover:underline disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="mt-8 flex items-center justify-center gap-4">
+          <button
+            onClick={() => goToPage(page - 1)}
+            disabled={page <= 1}
+            className="btn-secondary text-sm"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => goToPage(page + 1)}
+            disabled={page >= totalPages}
+            className="btn-secondary text-sm"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BookmarksPage;
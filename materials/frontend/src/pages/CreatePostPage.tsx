@@ -6,6 +6,7 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { createPost } from '../services/api';
+import MediaPicker from '../components/MediaPicker';
 
 function CreatePostPage() {
   const navigate = useNavigate();
@@ -17,7 +18,9 @@ function CreatePostPage() {
     content: '',
     excerpt: '',
     tags: '',
-    status: 'draft' as 'draft' | 'published',
+    featuredImageUrl: '',
+    publishAt: '',
+    status: 'draft' as 'draft' | 'scheduled' | 'published',
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -31,7 +34,10 @@ function CreatePostPage() {
         content: formData.content,
         excerpt: formData.excerpt || undefined,
         tags: formData.tags ? formData.tags.split(',').map((t) => t.trim()) : undefined,
+        featuredImageUrl: formData.featuredImageUrl || undefined,
         status: formData.status,
+        publishAt:
+          formData.status === 'scheduled' ? new Date(formData.publishAt).toISOString() : undefined,
       });
 
       navigate(`/posts/${post.slug}`);
@@ -83,10 +89,21 @@ function CreatePostPage() {
           />
         </div>
 
+        <div>
+          <span className="mb-2 block font-medium text-gray-700">Featured Image</span>
+          <MediaPicker
+            value={formData.featuredImageUrl}
+            onChange={(url) => setFormData((prev) => ({ ...prev, featuredImageUrl: url }))}
+          />
+        </div>
+
         <div>
           <label htmlFor="content" className="mb-2 block font-medium text-gray-700">
             Content *
           </label>
+          <p className="mb-2 text-sm text-gray-500">
+            Markdown supported: headings, lists, code blocks, tables, links and images.
+          </p>
           <textarea
             id="content"
             required
@@ -94,7 +111,7 @@ function CreatePostPage() {
             className="input min-h-[300px] resize-y"
             value={formData.content}
             onChange={(e) => setFormData({ ...formData, content: e.target.value })}
-            placeholder="Write your post content here..."
+            placeholder="Write your post content in Markdown..."
           />
         </div>
 
@@ -122,7 +139,7 @@ function CreatePostPage() {
                 value="draft"
                 checked={formData.status === 'draft'}
                 onChange={(e) =>
-                  setFormData({ ...formData, status: e.target.value as 'draft' | 'published' })
+                  setFormData({ ...formData, status: e.target.value as typeof formData.status })
                 }
                 className="mr-2"
               />
@@ -135,13 +152,41 @@ function CreatePostPage() {
                 value="published"
                 checked={formData.status === 'published'}
                 onChange={(e) =>
-                  setFormData({ ...formData, status: e.target.value as 'draft' | 'published' })
+                  setFormData({ ...formData, status: e.target.value as typeof formData.status })
                 }
                 className="mr-2"
               />
               Publish Now
             </label>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                name="status"
+                value="scheduled"
+                checked={formData.status === 'scheduled'}
+                onChange={(e) =>
+                  setFormData({ ...formData, status: e.target.value as typeof formData.status })
+                }
+                className="mr-2"
+              />
+              Schedule
+            </label>
           </div>
+          {formData.status === 'scheduled' && (
+            <div className="mt-3">
+              <label htmlFor="publishAt" className="mb-1 block text-sm text-gray-600">
+                Publish on (your local time)
+              </label>
+              <input
+                type="datetime-local"
+                id="publishAt"
+                required
+                className="input w-auto"
+                value={formData.publishAt}
+                onChange={(e) => setFormData({ ...formData, publishAt: e.target.value })}
+              />
+            </div>
+          )}
         </div>
 
         <div className="flex space-x-4">
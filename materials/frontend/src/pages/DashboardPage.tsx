@@ -0,0 +1,161 @@
+/**
+ * Dashboard Page Component
+ * Author statistics: posts by status, views, comments received, top posts
+ * and recent comments on the user's posts
+ */
+
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AuthorDashboard, getDashboard } from '../services/api';
+
+interface StatCardProps {
+  label: string;
+  value: number;
+  detail?: string;
+}
+
+function StatCard({ label, value, detail }: StatCardProps) {
+  return (
+    <div className="card p-5">
+      <p className="text-sm font-medium text-gray-500">{label}</p>
+      <p className="mt-1 text-3xl font-bold text-gray-900">{value.toLocaleString()}</p>
+      {detail && <p className="mt-1 text-sm text-gray-500">{detail}</p>}
+    </div>
+  );
+}
+
+function DashboardPage() {
+  const [dashboard, setDashboard] = useState<AuthorDashboard | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchDashboard() {
+      try {
+        setDashboard(await getDashboard());
+      } catch (err) {
+        setError('Failed to load your dashboard');
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchDashboard();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-azure-600 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (error || !dashboard) {
+    return (
+      <div className="rounded-lg bg-red-50 p-4 text-center text-red-600">
+        {error ?? 'Failed to load your dashboard'}
+      </div>
+    );
+  }
+
+  const { posts, views, comments, topPosts, recentComments } = dashboard;
+
+  return (
+    <div>
+      <div className="mb-8 flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
+        <Link to="/my-posts" className="btn-secondary">
+          Manage Posts
+        </Link>
+      </div>
+
+      <div className="mb-8 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <StatCard
+          label="Posts"
+          value={posts.total}
+          detail={`${posts.published} published · ${posts.draft} drafts`}
+        />
+        <StatCard
+          label="Views"
+          value={views.total}
+          detail={`${views.last30Days} in the last 30 days`}
+        />
+        <StatCard
+          label="Comments received"
+          value={comments.total}
+          detail={`${comments.last30Days} in the last 30 days`}
+        />
+        <StatCard
+          label="Scheduled"
+          value={posts.scheduled}
+          detail={posts.archived > 0 ? `${posts.archived} archived` : undefined}
+        />
+      </div>
+
+      <div className="grid gap-8 lg:grid-cols-2">
+        <section className="card p-6">
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">Top Posts</h2>
+          {topPosts.length === 0 ? (
+            <p className="text-sm text-gray-500">No published posts yet.</p>
+          ) : (
+            <ol className="space-y-3">
+              {topPosts.map((post) => (
+                <li key={post._id} className="flex items-center justify-between gap-4">
+                  <Link
+                    to={`/posts/${post.slug}`}
+                    className="truncate font-medium text-gray-900 hover:text-azure-600"
+                  >
+                    {post.title}
+                  </Link>
+                  <span className="shrink-0 text-sm text-gray-500">
+                    {post.viewCount} views · {post.commentCount} comments
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        <section className="card p-6">
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">Recent Comments</h2>
+          {recentComments.length === 0 ? (
+            <p className="text-sm text-gray-500">No comments on your posts yet.</p>
+          ) : (
+            <ul className="space-y-4">
+              {recentComments.map((comment) => (
+                <li key={comment._id} className="border-b border-gray-100 pb-3 last:border-0">
+                  <div className="mb-1 text-sm text-gray-500">
+                    <span className="font-medium text-gray-900">
+                      {comment.author?.displayName ?? 'Anonymous'}
+                    </span>{' '}
+                    on{' '}
+                    {comment.post ? (
+                      <Link
+                        to={`/posts/${comment.post.slug}`}
+                        className="text-azure-600 hover:underline"
+                      >
+                        {comment.post.title}
+                      </Link>
+                    ) : (
+                      'a deleted post'
+                    )}{' '}
+                    · {new Date(comment.createdAt).toLocaleDateString()}
+                  </div>
+                  {/* Content is sanitized server-side (see backend utils/sanitize.ts) */}
+                  <div
+                    className="line-clamp-3 text-sm text-gray-700"
+                    dangerouslySetInnerHTML={{ __html: comment.content }}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
+
+export default DashboardPage;
@@ -6,6 +6,27 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { getPost, updatePost, Post } from '../services/api';
+import MediaPicker from '../components/MediaPicker';
+import RevisionHistoryPanel from '../components/RevisionHistoryPanel';
+
+// <input type="datetime-local"> expects local time without a timezone suffix
+function toDateTimeLocal(iso?: string): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function toFormData(post: Post) {
+  return {
+    title: post.title,
+    content: post.content,
+    excerpt: post.excerpt || '',
+    tags: post.tags?.join(', ') || '',
+    featuredImageUrl: post.featuredImageUrl || '',
+    publishAt: toDateTimeLocal(post.publishAt),
+    status: post.status as 'draft' | 'scheduled' | 'published',
+  };
+}
 
 function EditPostPage() {
   const { slug } = useParams<{ slug: string }>();
@@ -20,7 +41,9 @@ function EditPostPage() {
     content: '',
     excerpt: '',
     tags: '',
-    status: 'draft' as 'draft' | 'published',
+    featuredImageUrl: '',
+    publishAt: '',
+    status: 'draft' as 'draft' | 'scheduled' | 'published',
   });
 
   useEffect(() => {
@@ -30,13 +53,7 @@ function EditPostPage() {
       try {
         const data = await getPost(slug);
         setPost(data);
-        setFormData({
-          title: data.title,
-          content: data.content,
-          excerpt: data.excerpt || '',
-          tags: data.tags?.join(', ') || '',
-          status: data.status as 'draft' | 'published',
-        });
+        setFormData(toFormData(data));
       } catch (err) {
         setError('Failed to load post. You may not have permission to edit this post.');
         console.error(err);
@@ -55,13 +72,23 @@ function EditPostPage() {
     setSaving(true);
     setError(null);
 
+    // An unchanged publish time stays as it is on the server; re-sending it would be
+    // rejected once that time has passed
+    const publishAtChanged =
+      post?.status !== 'scheduled' || formData.publishAt !== toDateTimeLocal(post.publishAt);
+
     try {
       const updatedPost = await updatePost(slug, {
         title: formData.title,
         content: formData.content,
         excerpt: formData.excerpt || undefined,
         tags: formData.tags ? formData.tags.split(',').map((t) => t.trim()) : undefined,
+        featuredImageUrl: formData.featuredImageUrl,
         status: formData.status,
+        publishAt:
+          formData.status === 'scheduled' && publishAtChanged
+            ? new Date(formData.publishAt).toISOString()
+            : undefined,
       });
 
       navigate(`/posts/${updatedPost.slug}`);
@@ -132,10 +159,21 @@ function EditPostPage() {
           />
         </div>
 
+        <div>
+          <span className="mb-2 block font-medium text-gray-700">Featured Image</span>
+          <MediaPicker
+            value={formData.featuredImageUrl}
+            onChange={(url) => setFormData((prev) => ({ ...prev, featuredImageUrl: url }))}
+          />
+        </div>
+
         <div>
           <label htmlFor="content" className="mb-2 block font-medium text-gray-700">
             Content *
           </label>
+          <p className="mb-2 text-sm text-gray-500">
+            Markdown supported: headings, lists, code blocks, tables, links and images.
+          </p>
           <textarea
             id="content"
             required
@@ -143,7 +181,7 @@ function EditPostPage() {
             className="input min-h-[300px] resize-y"
             value={formData.content}
             onChange={(e) => setFormData({ ...formData, content: e.target.value })}
-            placeholder="Write your post content here..."
+            placeholder="Write your post content in Markdown..."
           />
         </div>
 
@@ -171,7 +209,7 @@ function EditPostPage() {
                 value="draft"
                 checked={formData.status === 'draft'}
                 onChange={(e) =>
-                  setFormData({ ...formData, status: e.target.value as 'draft' | 'published' })
+                  setFormData({ ...formData, status: e.target.value as typeof formData.status })
                 }
                 className="mr-2"
               />
@@ -184,13 +222,41 @@ function EditPostPage() {
                 value="published"
                 checked={formData.status === 'published'}
                 onChange={(e) =>
-                  setFormData({ ...formData, status: e.target.value as 'draft' | 'published' })
+                  setFormData({ ...formData, status: e.target.value as typeof formData.status })
                 }
                 className="mr-2"
               />
               Published
             </label>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                name="status"
+                value="scheduled"
+                checked={formData.status === 'scheduled'}
+                onChange={(e) =>
+                  setFormData({ ...formData, status: e.target.value as typeof formData.status })
+                }
+                className="mr-2"
+              />
+              Scheduled
+            </label>
           </div>
+          {formData.status === 'scheduled' && (
+            <div className="mt-3">
+              <label htmlFor="publishAt" className="mb-1 block text-sm text-gray-600">
+                Publish on (your local time)
+              </label>
+              <input
+                type="datetime-local"
+                id="publishAt"
+                required
+                className="input w-auto"
+                value={formData.publishAt}
+                onChange={(e) => setFormData({ ...formData, publishAt: e.target.value })}
+              />
+            </div>
+          )}
         </div>
 
         <div className="flex space-x-4">
@@ -206,6 +272,14 @@ function EditPostPage() {
           </button>
         </div>
       </form>
+
+      <RevisionHistoryPanel
+        slug={post.slug}
+        onRestored={(restored) => {
+          setPost(restored);
+          setFormData(toFormData(restored));
+        }}
+      />
     </div>
   );
 }
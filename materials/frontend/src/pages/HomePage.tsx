@@ -1,98 +1,203 @@
 /**
  * Home Page Component
- * Displays list of blog posts
+ * Displays list of blog posts with infinite scroll; signed-in readers can
+ * switch to posts from the authors they follow
  */
 
-import { useEffect, useState } from 'react';
-import { Link } from 'react-router-dom';
-import { getPosts, Post } from '../services/api';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useIsAuthenticated } from '@azure/msal-react';
+import { getFeed, getPostsByCursor, Post, PostsCursorResponse } from '../services/api';
+import PostCard from '../components/PostCard';
+
+const PAGE_SIZE = 12;
+
+type Tab = 'recent' | 'following';
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: 'recent', label: 'Recent' },
+  { id: 'following', label: 'Following' },
+];
+
+function fetchPage(tab: Tab, cursor?: string): Promise<PostsCursorResponse> {
+  return tab === 'following' ? getFeed(cursor, PAGE_SIZE) : getPostsByCursor(cursor, PAGE_SIZE);
+}
 
 function HomePage() {
-  const [posts, setPosts] = useState<Post[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const isAuthenticated = useIsAuthenticated();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab: Tab =
+    isAuthenticated && searchParams.get('tab') === 'following' ? 'following' : 'recent';
+
+  // Results are tagged with the tab they belong to; they are stale while the
+  // tab in the URL differs
+  const [feed, setFeed] = useState<{
+    tab: Tab;
+    posts: Post[];
+    nextCursor: string | null;
+    error?: string;
+  } | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState(false);
+
+  // Guards against the sentinel firing again before the previous page arrives
+  const loadingMoreRef = useRef(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const loading = feed?.tab !== tab;
+  const posts = loading ? [] : feed.posts;
+  const nextCursor = loading ? null : feed.nextCursor;
 
   useEffect(() => {
+    let cancelled = false;
+
     async function fetchPosts() {
       try {
-        const data = await getPosts();
-        setPosts(data.posts);
+        const data = await fetchPage(tab);
+        if (!cancelled) {
+          setFeed({ tab, posts: data.posts, nextCursor: data.nextCursor });
+          setLoadMoreError(false);
+        }
       } catch (err) {
-        setError('Failed to load posts');
+        if (!cancelled) {
+          setFeed({ tab, posts: [], nextCursor: null, error: 'Failed to load posts' });
+        }
         console.error(err);
-      } finally {
-        setLoading(false);
       }
     }
 
     fetchPosts();
-  }, []);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tab]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMoreRef.current) return;
+
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setLoadMoreError(false);
+    try {
+      const data = await fetchPage(tab, nextCursor);
+      setFeed((prev) =>
+        prev?.tab === tab
+          ? { tab, posts: [...prev.posts, ...data.posts], nextCursor: data.nextCursor }
+          : prev
+      );
+    } catch (err) {
+      setLoadMoreError(true);
+      console.error(err);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [tab, nextCursor]);
+
+  // Load the next page when the sentinel below the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || loadMoreError) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          loadMore();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [loadMore, nextCursor, loadMoreError]);
+
+  const selectTab = (nextTab: Tab) => {
+    setSearchParams(nextTab === 'recent' ? {} : { tab: nextTab });
+  };
+
+  const header = (
+    <div className="mb-8 flex flex-wrap items-center justify-between gap-4">
+      <h1 className="text-3xl font-bold text-gray-900">
+        {tab === 'following' ? 'Following' : 'Recent Posts'}
+      </h1>
+      {isAuthenticated && (
+        <div className="flex gap-2" role="tablist">
+          {TABS.map(({ id, label }) => (
+            <button
+              key={id}
+              role="tab"
+              aria-selected={tab === id}
+              onClick={() => selectTab(id)}
+              className={`rounded-lg px-3 py-1 text-sm font-medium ${
+                tab === id
+                  ? 'bg-azure-100 text-azure-700'
+                  : 'text-gray-600 hover:bg-gray-100 hover:text-azure-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
 
   if (loading) {
     return (
-      <div className="flex items-center justify-center py-12">
-        <div className="h-8 w-8 animate-spin rounded-full border-4 border-azure-600 border-t-transparent"></div>
+      <div>
+        {header}
+        <div className="flex items-center justify-center py-12">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-azure-600 border-t-transparent"></div>
+        </div>
       </div>
     );
   }
 
-  if (error) {
+  if (feed.error) {
     return (
-      <div className="rounded-lg bg-red-50 p-4 text-center text-red-600">
-        {error}
+      <div>
+        {header}
+        <div className="rounded-lg bg-red-50 p-4 text-center text-red-600">{feed.error}</div>
       </div>
     );
   }
 
   return (
     <div>
-      <h1 className="mb-8 text-3xl font-bold text-gray-900">Recent Posts</h1>
+      {header}
 
       {posts.length === 0 ? (
         <div className="rounded-lg bg-gray-50 p-8 text-center text-gray-600">
-          No posts yet. Be the first to write one!
+          {tab === 'following'
+            ? 'No posts from authors you follow yet. Follow authors from their profile pages to see their posts here.'
+            : 'No posts yet. Be the first to write one!'}
         </div>
       ) : (
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
           {posts.map((post) => (
-            <article key={post._id} className="card overflow-hidden">
-              {post.featuredImageUrl && (
-                <img
-                  src={post.featuredImageUrl}
-                  alt={post.title}
-                  className="h-48 w-full object-cover"
-                />
-              )}
-              <div className="p-6">
-                <Link to={`/posts/${post.slug}`}>
-                  <h2 className="mb-2 text-xl font-semibold text-gray-900 hover:text-azure-600">
-                    {post.title}
-                  </h2>
-                </Link>
-                {post.excerpt && (
-                  <p className="mb-4 line-clamp-3 text-gray-600">{post.excerpt}</p>
-                )}
-                <div className="flex items-center justify-between text-sm text-gray-500">
-                  <span>{post.author?.displayName ?? 'Anonymous'}</span>
-                  <span>{post.publishedAt ? new Date(post.publishedAt).toLocaleDateString() : ''}</span>
-                </div>
-                {post.tags && post.tags.length > 0 && (
-                  <div className="mt-4 flex flex-wrap gap-2">
-                    {post.tags.slice(0, 3).map((tag) => (
-                      <span
-                        key={tag}
-                        className="rounded-full bg-azure-100 px-2 py-1 text-xs text-azure-700"
-                      >
-                        {tag}
-                      </span>
-                    ))}
-                  </div>
-                )}
-              </div>
-            </article>
+            <PostCard key={post._id} post={post} />
           ))}
         </div>
       )}
+
+      <div ref={sentinelRef} className="flex justify-center py-8">
+        {loadingMore && (
+          <div className="h-6 w-6 animate-spin rounded-full border-4 border-azure-600 border-t-transparent"></div>
+        )}
+        {loadMoreError && (
+          <div className="text-center">
+            <p className="mb-2 text-sm text-red-600">Failed to load more posts</p>
+            <button onClick={loadMore} className="btn-secondary">
+              Try again
+            </button>
+          </div>
+        )}
+        {!nextCursor && posts.length > PAGE_SIZE && (
+          <p className="text-sm text-gray-500">You've reached the end.</p>
+        )}
+      </div>
     </div>
   );
 }
@@ -7,13 +7,17 @@ import { useCallback, useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useIsAuthenticated } from '@azure/msal-react';
 import { getMyPosts, deletePost, Post } from '../services/api';
+import PostStatsPanel from '../components/PostStatsPanel';
 
 function MyPostsPage() {
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [statusFilter, setStatusFilter] = useState<'all' | 'draft' | 'published'>('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | 'draft' | 'scheduled' | 'published'>(
+    'all'
+  );
   const [deletingSlug, setDeletingSlug] = useState<string | null>(null);
+  const [statsSlug, setStatsSlug] = useState<string | null>(null);
   const isAuthenticated = useIsAuthenticated();
 
   const fetchPosts = useCallback(async () => {
@@ -85,9 +89,14 @@ function MyPostsPage() {
     <div>
       <div className="mb-8 flex items-center justify-between">
         <h1 className="text-3xl font-bold text-gray-900">My Posts</h1>
-        <Link to="/posts/new" className="btn-primary">
-          Create New Post
-        </Link>
+        <div className="flex items-center gap-2">
+          <Link to="/dashboard" className="btn-secondary">
+            Dashboard
+          </Link>
+          <Link to="/posts/new" className="btn-primary">
+            Create New Post
+          </Link>
+        </div>
       </div>
 
       {/* Status Filter */}
@@ -112,6 +121,16 @@ function MyPostsPage() {
         >
           Drafts
         </button>
+        <button
+          onClick={() => setStatusFilter('scheduled')}
+          className={`rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
+            statusFilter === 'scheduled'
+              ? 'bg-azure-600 text-white'
+              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          Scheduled
+        </button>
         <button
           onClick={() => setStatusFilter('published')}
           className={`rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
@@ -133,57 +152,66 @@ function MyPostsPage() {
       ) : (
         <div className="space-y-4">
           {posts.map((post) => (
-            <article
-              key={post._id}
-              className="card flex items-center justify-between p-4"
-            >
-              <div className="flex-1">
-                <div className="flex items-center gap-3">
-                  <Link to={`/posts/${post.slug}`}>
-                    <h2 className="text-lg font-semibold text-gray-900 hover:text-azure-600">
-                      {post.title}
-                    </h2>
-                  </Link>
-                  <span
-                    className={`rounded-full px-2 py-1 text-xs font-medium ${
-                      post.status === 'published'
-                        ? 'bg-green-100 text-green-800'
-                        : 'bg-yellow-100 text-yellow-800'
-                    }`}
-                  >
-                    {post.status}
-                  </span>
+            <article key={post._id} className="card p-4">
+              <div className="flex items-center justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center gap-3">
+                    <Link to={`/posts/${post.slug}`}>
+                      <h2 className="text-lg font-semibold text-gray-900 hover:text-azure-600">
+                        {post.title}
+                      </h2>
+                    </Link>
+                    <span
+                      className={`rounded-full px-2 py-1 text-xs font-medium ${
+                        post.status === 'published'
+                          ? 'bg-green-100 text-green-800'
+                          : post.status === 'scheduled'
+                            ? 'bg-blue-100 text-blue-800'
+                            : 'bg-yellow-100 text-yellow-800'
+                      }`}
+                    >
+                      {post.status}
+                    </span>
+                  </div>
+                  <div className="mt-1 flex items-center gap-4 text-sm text-gray-500">
+                    <span>Updated: {new Date(post.updatedAt).toLocaleDateString()}</span>
+                    {post.status === 'scheduled' && post.publishAt && (
+                      <span>Publishes: {new Date(post.publishAt).toLocaleString()}</span>
+                    )}
+                    {post.viewCount !== undefined && <span>{post.viewCount} views</span>}
+                  </div>
                 </div>
-                <div className="mt-1 flex items-center gap-4 text-sm text-gray-500">
-                  <span>
-                    Updated: {new Date(post.updatedAt).toLocaleDateString()}
-                  </span>
-                  {post.viewCount !== undefined && (
-                    <span>{post.viewCount} views</span>
+                <div className="flex items-center gap-2">
+                  {post.status === 'published' && (
+                    <button
+                      onClick={() => setStatsSlug(statsSlug === post.slug ? null : post.slug)}
+                      className="rounded-lg bg-gray-100 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200"
+                    >
+                      {statsSlug === post.slug ? 'Hide Stats' : 'Stats'}
+                    </button>
                   )}
+                  <Link
+                    to={`/posts/${post.slug}/edit`}
+                    className="rounded-lg bg-gray-100 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200"
+                  >
+                    Edit
+                  </Link>
+                  <Link
+                    to={`/posts/${post.slug}`}
+                    className="rounded-lg bg-azure-100 px-3 py-2 text-sm font-medium text-azure-700 hover:bg-azure-200"
+                  >
+                    View
+                  </Link>
+                  <button
+                    onClick={() => handleDelete(post.slug, post.title)}
+                    disabled={deletingSlug === post.slug}
+                    className="rounded-lg bg-red-100 px-3 py-2 text-sm font-medium text-red-700 hover:bg-red-200 disabled:opacity-50"
+                  >
+                    {deletingSlug === post.slug ? 'Deleting...' : 'Delete'}
+                  </button>
                 </div>
               </div>
-              <div className="flex items-center gap-2">
-                <Link
-                  to={`/posts/${post.slug}/edit`}
-                  className="rounded-lg bg-gray-100 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200"
-                >
-                  Edit
-                </Link>
-                <Link
-                  to={`/posts/${post.slug}`}
-                  className="rounded-lg bg-azure-100 px-3 py-2 text-sm font-medium text-azure-700 hover:bg-azure-200"
-                >
-                  View
-                </Link>
-                <button
-                  onClick={() => handleDelete(post.slug, post.title)}
-                  disabled={deletingSlug === post.slug}
-                  className="rounded-lg bg-red-100 px-3 py-2 text-sm font-medium text-red-700 hover:bg-red-200 disabled:opacity-50"
-                >
-                  {deletingSlug === post.slug ? 'Deleting...' : 'Delete'}
-                </button>
-              </div>
+              {statsSlug === post.slug && <PostStatsPanel slug={post.slug} />}
             </article>
           ))}
         </div>
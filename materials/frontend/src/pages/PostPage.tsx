@@ -5,7 +5,10 @@
 import { useEffect, useState } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useMsal } from '@azure/msal-react';
-import { getPost, deletePost, Post } from '../services/api';
+import { getPost, deletePost, Post, togglePostReaction } from '../services/api';
+import BookmarkButton from '../components/BookmarkButton';
+import CommentSection from '../components/CommentSection';
+import ReactionBar from '../components/ReactionBar';
 
 function PostPage() {
   const { slug } = useParams<{ slug: string }>();
@@ -109,6 +112,12 @@ function PostPage() {
           <strong>Draft</strong> — This post is not published yet and only visible to you.
         </div>
       )}
+      {post.status === 'scheduled' && post.publishAt && (
+        <div className="mb-4 rounded-lg bg-blue-50 p-3 text-sm text-blue-800">
+          <strong>Scheduled</strong> — This post will be published on{' '}
+          {new Date(post.publishAt).toLocaleString()}. Until then it is only visible to you.
+        </div>
+      )}
 
       {post.featuredImageUrl && (
         <img
@@ -121,30 +130,70 @@ function PostPage() {
       <h1 className="mb-4 text-4xl font-bold text-gray-900">{post.title}</h1>
 
       <div className="mb-6 flex items-center space-x-4 text-gray-600">
-        <span>By {post.author?.displayName ?? 'Anonymous'}</span>
+        <span>
+          By{' '}
+          {post.author ? (
+            <Link
+              to={`/users/${encodeURIComponent(post.author.username)}`}
+              className="hover:text-azure-600"
+            >
+              {post.author.displayName}
+            </Link>
+          ) : (
+            'Anonymous'
+          )}
+        </span>
         <span>•</span>
         <span>{post.publishedAt ? new Date(post.publishedAt).toLocaleDateString() : ''}</span>
         <span>•</span>
         <span>{post.viewCount} views</span>
+        {post.status === 'published' && currentUserOid && (
+          <BookmarkButton
+            key={post._id}
+            slug={post.slug}
+            initialBookmarked={post.bookmarked ?? false}
+            className="!ml-auto"
+          />
+        )}
       </div>
 
       {post.tags && post.tags.length > 0 && (
         <div className="mb-6 flex flex-wrap gap-2">
           {post.tags.map((tag) => (
-            <span
+            <Link
               key={tag}
-              className="rounded-full bg-azure-100 px-3 py-1 text-sm text-azure-700"
+              to={`/tags/${encodeURIComponent(tag)}`}
+              className="rounded-full bg-azure-100 px-3 py-1 text-sm text-azure-700 hover:bg-azure-200"
             >
               {tag}
-            </span>
+            </Link>
           ))}
         </div>
       )}
 
-      <div className="prose prose-lg max-w-none">
-        {/* In production, use a markdown renderer */}
-        <div className="whitespace-pre-wrap">{post.content}</div>
-      </div>
+      {post.contentHtml !== undefined ? (
+        // Markdown is rendered and sanitized server-side (see backend utils/markdown.ts)
+        <div
+          className="prose prose-lg max-w-none"
+          dangerouslySetInnerHTML={{ __html: post.contentHtml }}
+        />
+      ) : (
+        <div className="prose prose-lg max-w-none whitespace-pre-wrap">{post.content}</div>
+      )}
+
+      {post.status === 'published' && (
+        <div className="mt-8 border-t border-gray-100 pt-6">
+          <ReactionBar
+            key={post._id}
+            reactions={post.reactions}
+            canReact={!!currentUserOid}
+            onToggle={async (type) => (await togglePostReaction(post.slug, type)).reactions}
+          />
+        </div>
+      )}
+
+      {/* Comments are only accepted on published posts */}
+      {post.status === 'published' && <CommentSection slug={post.slug} />}
     </article>
   );
 }
@@ -1,14 +1,208 @@
 /**
  * Profile Page Component
- * User profile display
+ * View and edit the signed-in user's stored profile
  */
 
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useMsal } from '@azure/msal-react';
+import {
+  changeUsername,
+  checkUsernameAvailability,
+  CurrentUser,
+  getApiError,
+  getCurrentUser,
+  updateCurrentUser,
+  UsernameAvailability,
+} from '../services/api';
+import EmailPreferencesPanel from '../components/EmailPreferencesPanel';
+
+interface ProfileForm {
+  displayName: string;
+  username: string;
+  bio: string;
+  avatarUrl: string;
+}
+
+type FieldErrors = Partial<Record<keyof ProfileForm, string>>;
+
+const UNAVAILABLE_MESSAGES: Record<NonNullable<UsernameAvailability['reason']>, string> = {
+  invalid: 'Username must be 3-30 characters: a-z, 0-9, _ and -',
+  reserved: 'This username is reserved',
+  taken: 'Username is already taken',
+};
+
+function toForm(user: CurrentUser): ProfileForm {
+  return {
+    displayName: user.displayName,
+    username: user.username,
+    bio: user.bio ?? '',
+    avatarUrl: user.avatarUrl ?? '',
+  };
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function usernameError(username: string): string | undefined {
+  if (username.length < 3 || username.length > 30) {
+    return 'Username must be 3-30 characters';
+  }
+  if (!/^[a-z0-9_-]+$/.test(username)) {
+    return 'Username may only contain lowercase letters, numbers, _ and -';
+  }
+  return undefined;
+}
+
+/**
+ * Client-side checks mirroring the backend rules (PUT /api/users/me, PUT /api/users/me/username)
+ */
+function validate(form: ProfileForm): FieldErrors {
+  const errors: FieldErrors = {};
+  const displayName = form.displayName.trim();
+  const username = form.username.trim().toLowerCase();
+
+  if (displayName.length < 1 || displayName.length > 100) {
+    errors.displayName = 'Display name must be 1-100 characters';
+  }
+  const usernameMessage = usernameError(username);
+  if (usernameMessage) {
+    errors.username = usernameMessage;
+  }
+  if (form.bio.trim().length > 500) {
+    errors.bio = 'Bio must be 500 characters or fewer';
+  }
+  if (form.avatarUrl.trim() && !isHttpUrl(form.avatarUrl.trim())) {
+    errors.avatarUrl = 'Avatar must be an http(s) URL';
+  }
+
+  return errors;
+}
 
 function ProfilePage() {
   const { accounts } = useMsal();
   const account = accounts[0];
 
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const [form, setForm] = useState<ProfileForm>({
+    displayName: '',
+    username: '',
+    bio: '',
+    avatarUrl: '',
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [saved, setSaved] = useState(false);
+  const [availability, setAvailability] = useState<UsernameAvailability | null>(null);
+
+  useEffect(() => {
+    async function fetchProfile() {
+      try {
+        const data = await getCurrentUser();
+        setUser(data);
+        setForm(toForm(data));
+      } catch (err) {
+        setError('Failed to load your profile');
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchProfile();
+  }, []);
+
+  // Check a changed username while the user types (debounced)
+  const pendingUsername = form.username.trim().toLowerCase();
+  useEffect(() => {
+    if (!user || pendingUsername === user.username || usernameError(pendingUsername)) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await checkUsernameAvailability(pendingUsername);
+        if (!cancelled) setAvailability(result);
+      } catch (err) {
+        console.error(err);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [user, pendingUsername]);
+
+  const usernameStatus =
+    availability && availability.username === pendingUsername && pendingUsername !== user?.username
+      ? availability
+      : null;
+
+  const updateField = (field: keyof ProfileForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    setFieldErrors((prev) => ({ ...prev, [field]: undefined }));
+    setSaved(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const errors = validate(form);
+    setFieldErrors(errors);
+    setError(null);
+    setSaved(false);
+    if (Object.keys(errors).length > 0) return;
+
+    const username = form.username.trim().toLowerCase();
+
+    try {
+      setSaving(true);
+      if (username !== user.username) {
+        try {
+          setUser(await changeUsername(username));
+        } catch (err) {
+          const apiError = getApiError(err);
+          // 400 reserved/invalid, 409 taken, 429 changed too recently
+          if ([400, 409, 429].includes(apiError.status ?? 0) && apiError.message) {
+            setFieldErrors({ username: apiError.message });
+            return;
+          }
+          throw err;
+        }
+      }
+
+      const updated = await updateCurrentUser({
+        displayName: form.displayName.trim(),
+        bio: form.bio.trim(),
+        avatarUrl: form.avatarUrl.trim(),
+      });
+      setUser(updated);
+      setForm(toForm(updated));
+      setSaved(true);
+    } catch (err) {
+      const apiError = getApiError(err);
+      if (Object.keys(apiError.fieldErrors).length > 0) {
+        setFieldErrors(apiError.fieldErrors as FieldErrors);
+      } else {
+        setError(apiError.message ?? 'Failed to save your profile. Please try again.');
+      }
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   if (!account) {
     return (
       <div className="text-center text-gray-600">
@@ -17,34 +211,153 @@ function ProfilePage() {
     );
   }
 
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-azure-600 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  const inputClass = (field: keyof ProfileForm) =>
+    `input ${fieldErrors[field] ? 'border-red-400 focus:border-red-500 focus:ring-red-500' : ''}`;
+
   return (
     <div className="mx-auto max-w-2xl">
       <h1 className="mb-8 text-3xl font-bold text-gray-900">Your Profile</h1>
 
-      <div className="card p-6">
-        <div className="mb-6 flex items-center">
-          <div className="flex h-16 w-16 items-center justify-center rounded-full bg-azure-100 text-2xl font-bold text-azure-600">
-            {account.name?.charAt(0).toUpperCase() ?? 'U'}
+      {error && <div className="mb-6 rounded-lg bg-red-50 p-4 text-red-600">{error}</div>}
+
+      {user && (
+        <form onSubmit={handleSubmit} noValidate className="card space-y-6 p-6">
+          <div className="flex items-center">
+            {user.avatarUrl ? (
+              <img
+                src={user.avatarUrl}
+                alt={user.displayName}
+                className="h-16 w-16 rounded-full object-cover"
+              />
+            ) : (
+              <div className="flex h-16 w-16 items-center justify-center rounded-full bg-azure-100 text-2xl font-bold text-azure-600">
+                {user.displayName.charAt(0).toUpperCase()}
+              </div>
+            )}
+            <div className="ml-4">
+              <h2 className="text-xl font-semibold text-gray-900">{user.displayName}</h2>
+              <Link
+                to={`/users/${encodeURIComponent(user.username)}`}
+                className="text-sm text-azure-600 hover:underline"
+              >
+                View public profile
+              </Link>
+            </div>
           </div>
-          <div className="ml-4">
-            <h2 className="text-xl font-semibold text-gray-900">{account.name}</h2>
-            <p className="text-gray-600">{account.username}</p>
+
+          <div>
+            <label htmlFor="displayName" className="mb-2 block font-medium text-gray-700">
+              Display Name *
+            </label>
+            <input
+              type="text"
+              id="displayName"
+              maxLength={100}
+              className={inputClass('displayName')}
+              value={form.displayName}
+              onChange={(e) => updateField('displayName', e.target.value)}
+            />
+            {fieldErrors.displayName && (
+              <p className="mt-1 text-sm text-red-600">{fieldErrors.displayName}</p>
+            )}
           </div>
-        </div>
 
-        <div className="space-y-4 border-t border-gray-200 pt-6">
           <div>
-            <span className="text-sm font-medium text-gray-500">Name</span>
-            <p className="text-gray-900">{account.name}</p>
+            <label htmlFor="username" className="mb-2 block font-medium text-gray-700">
+              Username *
+            </label>
+            <input
+              type="text"
+              id="username"
+              maxLength={30}
+              className={inputClass('username')}
+              value={form.username}
+              onChange={(e) => updateField('username', e.target.value)}
+            />
+            {fieldErrors.username ? (
+              <p className="mt-1 text-sm text-red-600">{fieldErrors.username}</p>
+            ) : usernameStatus?.available === false && usernameStatus.reason ? (
+              <p className="mt-1 text-sm text-red-600">
+                {UNAVAILABLE_MESSAGES[usernameStatus.reason]}
+              </p>
+            ) : usernameStatus?.available ? (
+              <p className="mt-1 text-sm text-green-700">Username is available</p>
+            ) : (
+              <p className="mt-1 text-sm text-gray-500">
+                3-30 characters: lowercase letters, numbers, _ and -. Can be changed once a day;
+                your old profile URL will redirect to the new one.
+              </p>
+            )}
           </div>
+
           <div>
-            <span className="text-sm font-medium text-gray-500">Email</span>
-            <p className="text-gray-900">{account.username}</p>
+            <label htmlFor="bio" className="mb-2 block font-medium text-gray-700">
+              Bio
+            </label>
+            <textarea
+              id="bio"
+              rows={4}
+              maxLength={500}
+              className={`${inputClass('bio')} resize-y`}
+              value={form.bio}
+              onChange={(e) => updateField('bio', e.target.value)}
+              placeholder="Tell readers about yourself"
+            />
+            <div className="mt-1 flex justify-between text-sm">
+              <span className="text-red-600">{fieldErrors.bio}</span>
+              <span className="text-gray-500">{form.bio.length}/500</span>
+            </div>
           </div>
+
           <div>
-            <span className="text-sm font-medium text-gray-500">Tenant ID</span>
-            <p className="font-mono text-sm text-gray-600">{account.tenantId}</p>
+            <label htmlFor="avatarUrl" className="mb-2 block font-medium text-gray-700">
+              Avatar URL
+            </label>
+            <input
+              type="url"
+              id="avatarUrl"
+              className={inputClass('avatarUrl')}
+              value={form.avatarUrl}
+              onChange={(e) => updateField('avatarUrl', e.target.value)}
+              placeholder="https://..."
+            />
+            {fieldErrors.avatarUrl && (
+              <p className="mt-1 text-sm text-red-600">{fieldErrors.avatarUrl}</p>
+            )}
           </div>
+
+          <div className="flex items-center gap-4">
+            <button type="submit" disabled={saving} className="btn-primary">
+              {saving ? 'Saving...' : 'Save Profile'}
+            </button>
+            {saved && <span className="text-sm text-green-700">Profile saved.</span>}
+          </div>
+        </form>
+      )}
+
+      {user && <EmailPreferencesPanel />}
+
+      <div className="card mt-8 space-y-4 p-6">
+        <h3 className="font-semibold text-gray-900">Microsoft Entra ID Account</h3>
+        <div>
+          <span className="text-sm font-medium text-gray-500">Name</span>
+          <p className="text-gray-900">{account.name}</p>
+        </div>
+        <div>
+          <span className="text-sm font-medium text-gray-500">Email</span>
+          <p className="text-gray-900">{account.username}</p>
+        </div>
+        <div>
+          <span className="text-sm font-medium text-gray-500">Tenant ID</span>
+          <p className="font-mono text-sm text-gray-600">{account.tenantId}</p>
         </div>
       </div>
 
@@ -0,0 +1,152 @@
+/**
+ * Search Results Page Component
+ * Displays relevance-ranked full-text search results
+ */
+
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { searchPosts, SearchResponse } from '../services/api';
+import HighlightedText from '../components/HighlightedText';
+
+function SearchPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const q = searchParams.get('q')?.trim() ?? '';
+  const tag = searchParams.get('tag') ?? undefined;
+  const page = Number(searchParams.get('page')) || 1;
+
+  // Responses and failures are tagged with the search they answer; one for an
+  // earlier query, page or tag is stale and shows the spinner instead
+  const searchKey = JSON.stringify([q, page, tag ?? null]);
+  const [response, setResponse] = useState<{
+    key: string;
+    results?: SearchResponse;
+    error?: string;
+  } | null>(null);
+
+  const current = response?.key === searchKey ? response : null;
+  const results = current?.results ?? null;
+  const error = current?.error ?? null;
+  const loading = q !== '' && current === null;
+
+  useEffect(() => {
+    if (!q) return;
+
+    let cancelled = false;
+
+    async function fetchResults() {
+      try {
+        const data = await searchPosts(q, { page, tag });
+        if (!cancelled) {
+          setResponse({ key: searchKey, results: data });
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setResponse({ key: searchKey, error: 'Search failed. Please try again.' });
+        }
+        console.error(err);
+      }
+    }
+
+    fetchResults();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [q, page, tag, searchKey]);
+
+  const goToPage = (nextPage: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set('page', String(nextPage));
+    setSearchParams(params);
+  };
+
+  if (!q) {
+    return (
+      <div className="rounded-lg bg-gray-50 p-8 text-center text-gray-600">
+        Enter a search term to find posts.
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="rounded-lg bg-red-50 p-4 text-center text-red-600">{error}</div>;
+  }
+
+  if (loading || !results) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-azure-600 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl">
+      <h1 className="mb-2 text-3xl font-bold text-gray-900">Search Results</h1>
+      <p className="mb-8 text-gray-600">
+        {results.total} {results.total === 1 ? 'result' : 'results'} for &ldquo;{q}&rdquo;
+        {tag && <> tagged &ldquo;{tag}&rdquo;</>}
+      </p>
+
+      {results.posts.length === 0 ? (
+        <div className="rounded-lg bg-gray-50 p-8 text-center text-gray-600">
+          No posts matched your search.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {results.posts.map((post) => (
+            <article key={post._id} className="card p-6">
+              <Link to={`/posts/${post.slug}`}>
+                <h2 className="mb-2 text-xl font-semibold text-gray-900 hover:text-azure-600">
+                  <HighlightedText segments={post.highlights.title} />
+                </h2>
+              </Link>
+              <p className="mb-4 text-gray-600">
+                <HighlightedText segments={post.highlights.snippet} />
+              </p>
+              <div className="flex items-center justify-between text-sm text-gray-500">
+                {post.author ? (
+                  <Link
+                    to={`/users/${encodeURIComponent(post.author.username)}`}
+                    className="hover:text-azure-600"
+                  >
+                    {post.author.displayName}
+                  </Link>
+                ) : (
+                  <span>Anonymous</span>
+                )}
+                <span>
+                  {post.publishedAt ? new Date(post.publishedAt).toLocaleDateString() : ''}
+                </span>
+              </div>
+            </article>
+          ))}
+        </div>
+      )}
+
+      {results.totalPages > 1 && (
+        <div className="mt-8 flex items-center justify-center gap-4">
+          <button
+            onClick={() => goToPage(page - 1)}
+            disabled={page <= 1}
+            className="btn-secondary text-sm"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">
+            Page {page} of {results.totalPages}
+          </span>
+          <button
+            onClick={() => goToPage(page + 1)}
+            disabled={page >= results.totalPages}
+            className="btn-secondary text-sm"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SearchPage;
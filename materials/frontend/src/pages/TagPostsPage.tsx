@@ -0,0 +1,134 @@
+/**
+ * Tag Posts Page Component
+ * Published posts with a given tag
+ */
+
+import { useEffect, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { getPosts, PostsResponse } from '../services/api';
+import PostCard from '../components/PostCard';
+
+function TagPostsPage() {
+  const { tag = '' } = useParams<{ tag: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const page = Number(searchParams.get('page')) || 1;
+  const requestKey = `${tag}:${page}`;
+
+  const [result, setResult] = useState<{ key: string; data: PostsResponse } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Results are stale while the tag or page in the URL differs from the last response
+  const loading = result?.key !== requestKey;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchPosts() {
+      try {
+        const data = await getPosts(page, 12, tag);
+        if (!cancelled) {
+          setResult({ key: `${tag}:${page}`, data });
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError('Failed to load posts');
+        }
+        console.error(err);
+      }
+    }
+
+    fetchPosts();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tag, page]);
+
+  const goToPage = (nextPage: number) => {
+    setSearchParams({ page: String(nextPage) });
+  };
+
+  const header = (
+    <div className="mb-8 flex items-center justify-between">
+      <h1 className="text-3xl font-bold text-gray-900">
+        Posts tagged <span className="text-azure-600">#{tag}</span>
+      </h1>
+      <div className="flex items-center gap-4 text-sm">
+        <a
+          href={`/tags/${encodeURIComponent(tag)}/feed.xml`}
+          className="text-gray-500 hover:text-azure-600"
+        >
+          RSS
+        </a>
+        <Link to="/tags" className="text-gray-500 hover:text-azure-600">
+          All tags
+        </Link>
+      </div>
+    </div>
+  );
+
+  if (error) {
+    return (
+      <div>
+        {header}
+        <div className="rounded-lg bg-red-50 p-4 text-center text-red-600">{error}</div>
+      </div>
+    );
+  }
+
+  if (loading || !result) {
+    return (
+      <div>
+        {header}
+        <div className="flex items-center justify-center py-12">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-azure-600 border-t-transparent"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const { posts, totalPages } = result.data;
+
+  return (
+    <div>
+      {header}
+
+      {posts.length === 0 ? (
+        <div className="rounded-lg bg-gray-50 p-8 text-center text-gray-600">
+          No posts with this tag.
+        </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {posts.map((post) => (
+            <PostCard key={post._id} post={post} />
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="mt-8 flex items-center justify-center gap-4">
+          <button
+            onClick={() => goToPage(page - 1)}
+            disabled={page <= 1}
+            className="btn-secondary text-sm"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => goToPage(page + 1)}
+            disabled={page >= totalPages}
+            className="btn-secondary text-sm"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TagPostsPage;
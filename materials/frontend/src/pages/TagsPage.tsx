@@ -0,0 +1,82 @@
+/**
+ * Tags Page Component
+ * Tag cloud of all tags used by published posts
+ */
+
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { getTags, TagCount } from '../services/api';
+
+// Font sizes from least to most used tag
+const SIZE_CLASSES = ['text-sm', 'text-base', 'text-lg', 'text-xl', 'text-2xl', 'text-3xl'];
+
+function sizeClass(count: number, min: number, max: number): string {
+  // Log scale so a few very popular tags don't flatten the rest
+  const ratio = max === min ? 0.5 : Math.log(count / min) / Math.log(max / min);
+  return SIZE_CLASSES[Math.round(ratio * (SIZE_CLASSES.length - 1))] ?? 'text-base';
+}
+
+function TagsPage() {
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchTags() {
+      try {
+        const data = await getTags(200);
+        setTags(data);
+      } catch (err) {
+        setError('Failed to load tags');
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchTags();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-azure-600 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="rounded-lg bg-red-50 p-4 text-center text-red-600">{error}</div>;
+  }
+
+  const counts = tags.map((t) => t.count);
+  const min = Math.min(...counts);
+  const max = Math.max(...counts);
+  // Alphabetical order reads better in a cloud; the API returns most used first
+  const sorted = [...tags].sort((a, b) => a.tag.localeCompare(b.tag));
+
+  return (
+    <div>
+      <h1 className="mb-8 text-3xl font-bold text-gray-900">Tags</h1>
+
+      {tags.length === 0 ? (
+        <div className="rounded-lg bg-gray-50 p-8 text-center text-gray-600">No tags yet.</div>
+      ) : (
+        <div className="card flex flex-wrap items-baseline gap-x-4 gap-y-3 p-8">
+          {sorted.map(({ tag, count }) => (
+            <Link
+              key={tag}
+              to={`/tags/${encodeURIComponent(tag)}`}
+              title={`${count} ${count === 1 ? 'post' : 'posts'}`}
+              className={`${sizeClass(count, min, max)} text-azure-700 hover:text-azure-900 hover:underline`}
+            >
+              {tag}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TagsPage;
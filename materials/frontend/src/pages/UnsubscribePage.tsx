@@ -0,0 +1,74 @@
+/**
+ * Unsubscribe Page Component
+ * Landing page for the unsubscribe link in notification emails
+ *
+ * Unsubscribing needs a click: mail scanners open links in emails, so merely
+ * loading this page must not change anything. No sign-in is required.
+ */
+
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { getApiError, UnsubscribeResult, unsubscribeFromEmails } from '../services/api';
+
+const CATEGORY_LABELS: Record<UnsubscribeResult['category'], string> = {
+  replies: 'reply notification emails',
+  newPosts: 'new post emails from authors you follow',
+  all: 'all notification emails',
+};
+
+function UnsubscribePage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+
+  const [result, setResult] = useState<UnsubscribeResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnsubscribe = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      setResult(await unsubscribeFromEmails(token));
+    } catch (err) {
+      console.error(err);
+      setError(getApiError(err).message ?? 'Failed to unsubscribe. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-lg">
+      <div className="card space-y-4 p-6 text-center">
+        <h1 className="text-2xl font-bold text-gray-900">Email Notifications</h1>
+
+        {!token ? (
+          <p className="text-gray-600">This unsubscribe link is incomplete.</p>
+        ) : result ? (
+          <p className="text-gray-700">
+            You are unsubscribed from {CATEGORY_LABELS[result.category]}.
+          </p>
+        ) : (
+          <>
+            <p className="text-gray-700">Stop receiving these emails?</p>
+            <button onClick={handleUnsubscribe} disabled={submitting} className="btn-primary">
+              {submitting ? 'Unsubscribing...' : 'Unsubscribe'}
+            </button>
+          </>
+        )}
+
+        {error && <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600">{error}</div>}
+
+        <p className="text-sm text-gray-500">
+          Signed in? Choose exactly which emails you get on your{' '}
+          <Link to="/profile" className="text-azure-600 hover:underline">
+            profile page
+          </Link>
+          .
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default UnsubscribePage;
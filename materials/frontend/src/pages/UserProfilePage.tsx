@@ -0,0 +1,218 @@
+/**
+ * User Profile Page Component
+ * Public author profile with a paginated list of their published posts
+ */
+
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import { FollowResult, getPosts, getUser, PostsResponse, UserProfile } from '../services/api';
+import FollowButton from '../components/FollowButton';
+import PostCard from '../components/PostCard';
+
+const PAGE_SIZE = 9;
+
+function UserProfilePage() {
+  const { username = '' } = useParams<{ username: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const page = Number(searchParams.get('page')) || 1;
+  const postsKey = `${username}:${page}`;
+
+  // Results are tagged with the request they answer; they are stale while the
+  // username or page in the URL differs
+  const [profileResult, setProfileResult] = useState<{
+    username: string;
+    profile?: UserProfile;
+    error?: string;
+  } | null>(null);
+  const [postsResult, setPostsResult] = useState<{
+    key: string;
+    data?: PostsResponse;
+    error?: string;
+  } | null>(null);
+
+  const profileLoading = profileResult?.username !== username;
+  const postsLoading = postsResult?.key !== postsKey;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchProfile() {
+      try {
+        const data = await getUser(username);
+        if (!cancelled) setProfileResult({ username, profile: data });
+      } catch (err) {
+        if (!cancelled) {
+          setProfileResult({
+            username,
+            error:
+              axios.isAxiosError(err) && err.response?.status === 404
+                ? 'User not found'
+                : 'Failed to load profile',
+          });
+        }
+        console.error(err);
+      }
+    }
+
+    fetchProfile();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [username]);
+
+  // Previous username: the API followed a redirect, so move to the current URL
+  const currentUsername = profileResult?.profile?.username;
+  useEffect(() => {
+    if (currentUsername && currentUsername !== username) {
+      navigate(`/users/${encodeURIComponent(currentUsername)}`, { replace: true });
+    }
+  }, [currentUsername, username, navigate]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchPosts() {
+      try {
+        const data = await getPosts(page, PAGE_SIZE, undefined, username);
+        if (!cancelled) setPostsResult({ key: `${username}:${page}`, data });
+      } catch (err) {
+        if (!cancelled) {
+          setPostsResult({ key: `${username}:${page}`, error: 'Failed to load posts' });
+        }
+        console.error(err);
+      }
+    }
+
+    fetchPosts();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [username, page]);
+
+  const goToPage = (nextPage: number) => {
+    setSearchParams({ page: String(nextPage) });
+  };
+
+  const handleFollowChange = ({ following, followerCount, followingCount }: FollowResult) => {
+    setProfileResult((prev) =>
+      prev?.profile
+        ? { ...prev, profile: { ...prev.profile, following, followerCount, followingCount } }
+        : prev
+    );
+  };
+
+  if (profileLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-azure-600 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  const profile = profileResult?.profile;
+  if (!profile) {
+    return (
+      <div className="rounded-lg bg-red-50 p-4 text-center text-red-600">
+        {profileResult?.error ?? 'Failed to load profile'}
+      </div>
+    );
+  }
+
+  const posts = postsLoading ? undefined : postsResult?.data;
+  const totalPages = posts?.totalPages ?? 0;
+
+  return (
+    <div>
+      <div className="card mb-8 flex items-start gap-6 p-6">
+        {profile.avatarUrl ? (
+          <img
+            src={profile.avatarUrl}
+            alt={profile.displayName}
+            className="h-20 w-20 rounded-full object-cover"
+          />
+        ) : (
+          <div className="flex h-20 w-20 items-center justify-center rounded-full bg-azure-100 text-3xl font-bold text-azure-600">
+            {profile.displayName.charAt(0).toUpperCase()}
+          </div>
+        )}
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold text-gray-900">{profile.displayName}</h1>
+          <p className="text-gray-500">@{profile.username}</p>
+          {profile.bio && <p className="mt-3 whitespace-pre-line text-gray-700">{profile.bio}</p>}
+          <div className="mt-3 flex items-center gap-4 text-sm text-gray-500">
+            <span>Joined {new Date(profile.createdAt).toLocaleDateString()}</span>
+            <span>
+              {profile.postCount} {profile.postCount === 1 ? 'post' : 'posts'}
+            </span>
+            <span>
+              {profile.followerCount} {profile.followerCount === 1 ? 'follower' : 'followers'}
+            </span>
+            <span>{profile.followingCount} following</span>
+            <a
+              href={`/users/${encodeURIComponent(profile.username)}/feed.xml`}
+              className="hover:text-azure-600"
+            >
+              RSS
+            </a>
+          </div>
+        </div>
+        {profile.following !== undefined && (
+          <FollowButton
+            key={profile.username}
+            username={profile.username}
+            initialFollowing={profile.following}
+            onChange={handleFollowChange}
+          />
+        )}
+      </div>
+
+      <h2 className="mb-6 text-xl font-semibold text-gray-900">Posts</h2>
+
+      {!postsLoading && postsResult?.error ? (
+        <div className="rounded-lg bg-red-50 p-4 text-center text-red-600">{postsResult.error}</div>
+      ) : !posts ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-azure-600 border-t-transparent"></div>
+        </div>
+      ) : posts.posts.length === 0 ? (
+        <div className="rounded-lg bg-gray-50 p-8 text-center text-gray-600">
+          {profile.displayName} hasn't published any posts yet.
+        </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {posts.posts.map((post) => (
+            <PostCard key={post._id} post={post} />
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="mt-8 flex items-center justify-center gap-4">
+          <button
+            onClick={() => goToPage(page - 1)}
+            disabled={page <= 1}
+            className="btn-secondary text-sm"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => goToPage(page + 1)}
+            disabled={page >= totalPages}
+            className="btn-secondary text-sm"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default UserProfilePage;
@@ -17,7 +17,7 @@ import { createApiRequest } from '../config/authConfig';
  * - 'optional': Include token if available, continue without if not
  * - 'none': Don't attempt token acquisition (public endpoints)
  */
-type AuthMode = 'required' | 'optional' | 'none';
+export type AuthMode = 'required' | 'optional' | 'none';
 
 // Extend axios config to include our custom authMode property
 declare module 'axios' {
@@ -36,18 +36,84 @@ export interface Author {
   bio?: string;
 }
 
+export interface CurrentUser extends Author {
+  email: string;
+  role: 'user' | 'admin';
+  isActive: boolean;
+  lastLoginAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpdateProfileData {
+  displayName?: string;
+  bio?: string;
+  avatarUrl?: string; // Empty string clears the avatar
+}
+
+export type EmailFrequency = 'off' | 'instant' | 'daily';
+
+export interface EmailPreferences {
+  replies: EmailFrequency; // Replies to the user's comments
+  newPosts: EmailFrequency; // New posts from followed authors
+}
+
+export interface UnsubscribeResult {
+  category: keyof EmailPreferences | 'all';
+  preferences: EmailPreferences;
+}
+
+export interface UsernameAvailability {
+  username: string; // Normalized (lowercase)
+  available: boolean;
+  reason?: 'invalid' | 'reserved' | 'taken';
+}
+
+export interface UserProfile extends Author, FollowCounts {
+  createdAt: string;
+  postCount: number; // Published posts only
+  following?: boolean; // Only for signed-in readers viewing someone else's profile
+}
+
+export interface FollowCounts {
+  followerCount: number;
+  followingCount: number;
+}
+
+export interface FollowResult extends FollowCounts {
+  following: boolean;
+}
+
+// Mirrors the backend Reaction model; the UI maps each type to an emoji
+export const REACTION_TYPES = ['like', 'love', 'laugh', 'wow', 'celebrate'] as const;
+export type ReactionType = (typeof REACTION_TYPES)[number];
+
+export interface ReactionSummary {
+  counts: Partial<Record<ReactionType, number>>; // Types with no reactions are omitted
+  reactedByMe: ReactionType[]; // Empty when not signed in
+}
+
+export interface ReactionToggleResult {
+  reacted: boolean;
+  reactions: ReactionSummary;
+}
+
 export interface Post {
   _id: string;
   title: string;
   slug: string;
-  content: string;
+  content: string; // Markdown source
+  contentHtml?: string; // Sanitized HTML rendered by the API (single post only)
   excerpt?: string;
   author?: Author;
-  status: 'draft' | 'published' | 'archived';
+  status: 'draft' | 'scheduled' | 'published' | 'archived';
   tags?: string[];
   featuredImageUrl?: string;
   viewCount: number;
+  reactions?: ReactionSummary; // Published listings and single post
+  bookmarked?: boolean; // Single post, signed-in readers only
   publishedAt?: string;
+  publishAt?: string; // When a scheduled post goes live
   createdAt: string;
   updatedAt: string;
 }
@@ -60,12 +126,207 @@ export interface PostsResponse {
   totalPages: number;
 }
 
+// Cursor pagination: pass nextCursor back to get the following page (null at the end)
+export interface PostsCursorResponse {
+  posts: Post[];
+  nextCursor: string | null;
+  limit: number;
+}
+
+export interface BookmarksResponse extends PostsResponse {
+  posts: (Post & { bookmarkedAt: string })[];
+}
+
+export type NotificationType = 'comment' | 'reply' | 'reaction' | 'follow';
+
+// Named to avoid clashing with the DOM Notification API
+export interface AppNotification {
+  _id: string;
+  type: NotificationType;
+  actor: Author | null; // null once the actor's account is gone
+  post?: { _id: string; title: string; slug: string } | null;
+  comment?: { _id: string; content?: string } | null; // No content once deleted or hidden
+  reactionType?: ReactionType;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationsResponse {
+  notifications: AppNotification[];
+  nextCursor: string | null;
+  limit: number;
+  unreadCount: number;
+}
+
+export interface PostStats {
+  slug: string;
+  title: string;
+  status: Post['status'];
+  publishedAt?: string;
+  totalViews: number; // All time
+  periodViews: number; // Sum of `daily`
+  days: number;
+  daily: { day: string; views: number }[]; // Oldest first, UTC days (YYYY-MM-DD)
+}
+
+export interface AuthorDashboard {
+  posts: Record<Post['status'], number> & { total: number };
+  views: { total: number; last30Days: number };
+  comments: { total: number; last30Days: number }; // Received from other users
+  topPosts: {
+    _id: string;
+    title: string;
+    slug: string;
+    viewCount: number;
+    commentCount: number;
+    publishedAt?: string;
+  }[];
+  recentComments: {
+    _id: string;
+    content: string; // Sanitized HTML
+    createdAt: string;
+    author?: Author;
+    post?: { _id: string; title: string; slug: string };
+  }[];
+}
+
+export interface Comment {
+  _id: string;
+  post: string;
+  author?: Author;
+  content: string;
+  parentComment?: string | null;
+  isEdited: boolean;
+  isDeleted: boolean;
+  createdAt: string;
+  updatedAt: string;
+  // Present on listings; newly created comments have no replies yet
+  replyCount?: number;
+  hasMoreReplies?: boolean;
+  replies?: Comment[];
+  reactions?: ReactionSummary; // Present on listings
+}
+
+export interface CommentsResponse {
+  comments: Comment[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// Cursor pagination of top-level comments; `total` comes with the first page only
+export interface CommentsCursorResponse {
+  comments: Comment[];
+  total?: number;
+  nextCursor: string | null;
+  limit: number;
+}
+
+export interface ReplyTreeOptions {
+  depth?: number;
+  replyLimit?: number;
+}
+
+export interface PostRevision {
+  _id: string;
+  post: string;
+  revision: number;
+  title: string;
+  content?: string; // Omitted in revision listings
+  excerpt?: string;
+  tags: string[];
+  status: Post['status'];
+  editor?: Pick<Author, '_id' | 'displayName' | 'username'>;
+  restoredFrom?: number;
+  createdAt: string;
+}
+
+export interface RevisionsResponse {
+  revisions: PostRevision[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface DiffChange {
+  value: string;
+  added: boolean;
+  removed: boolean;
+}
+
+export interface RevisionDiff {
+  from: number;
+  to: number;
+  title: DiffChange[];
+  excerpt: DiffChange[];
+  content: DiffChange[];
+  tags: { added: string[]; removed: string[] };
+}
+
+export interface Media {
+  _id: string;
+  owner: string;
+  url: string;
+  thumbnailUrl: string;
+  originalName: string;
+  contentType: string;
+  size: number;
+  width: number;
+  height: number;
+  usedBy: string[];
+  createdAt: string;
+}
+
+export interface MediaResponse {
+  media: Media[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult extends Omit<Post, 'content' | 'contentHtml'> {
+  highlights: {
+    title: HighlightSegment[];
+    snippet: HighlightSegment[];
+  };
+}
+
+export interface SearchResponse {
+  posts: SearchResult[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  query: string;
+}
+
+export interface SearchOptions {
+  page?: number;
+  limit?: number;
+  tag?: string;
+  author?: string;
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
 export interface CreatePostData {
   title: string;
   content: string;
   excerpt?: string;
   tags?: string[];
-  status?: 'draft' | 'published';
+  status?: 'draft' | 'scheduled' | 'published';
+  publishAt?: string; // ISO 8601, required when status is 'scheduled'
   featuredImageUrl?: string;
 }
 
@@ -177,6 +438,59 @@ function createApiClient(): AxiosInstance {
 
 const api = createApiClient();
 
+/**
+ * Details of a failed API call
+ * The backend responds with { error: { code, message, details } }; validation
+ * failures list the offending fields in details.errors
+ */
+export interface ApiErrorInfo {
+  status?: number;
+  message?: string;
+  fieldErrors: Record<string, string>;
+}
+
+export function getApiError(error: unknown): ApiErrorInfo {
+  if (!axios.isAxiosError(error)) return { fieldErrors: {} };
+
+  const body = error.response?.data as
+    | {
+        error?: {
+          message?: string;
+          details?: { errors?: { path?: string; msg?: string }[] };
+        };
+      }
+    | undefined;
+
+  const fieldErrors: Record<string, string> = {};
+  for (const item of body?.error?.details?.errors ?? []) {
+    if (item.path && item.msg && !fieldErrors[item.path]) fieldErrors[item.path] = item.msg;
+  }
+
+  return { status: error.response?.status, message: body?.error?.message, fieldErrors };
+}
+
+/**
+ * Open a Server-Sent Events stream from the API
+ * Uses fetch rather than EventSource so the access token can be sent in the
+ * Authorization header; parsing and reconnecting live in the useEventStream hook.
+ *
+ * @param lastEventId - id of the last event received, so the server can replay missed events
+ */
+export async function openEventStream(
+  path: string,
+  authMode: AuthMode,
+  signal: AbortSignal,
+  lastEventId?: string
+): Promise<Response> {
+  const headers: Record<string, string> = { Accept: 'text/event-stream' };
+
+  const token = await getAccessToken(authMode);
+  if (token) headers.Authorization = `Bearer ${token}`;
+  if (lastEventId) headers['Last-Event-ID'] = lastEventId;
+
+  return fetch(`${api.defaults.baseURL ?? ''}${path}`, { headers, signal, cache: 'no-store' });
+}
+
 // ============================================================================
 // API Functions
 // Auth requirements based on /design/BackendApplicationDesign.md
@@ -206,6 +520,220 @@ export async function getPosts(
   return response.data;
 }
 
+/**
+ * Get published posts with cursor pagination (for infinite scroll)
+ * Omit the cursor for the first page
+ * Auth: Optional - works without auth, includes token if available
+ */
+export async function getPostsByCursor(
+  cursor = '',
+  limit = 12,
+  tag?: string,
+  author?: string
+): Promise<PostsCursorResponse> {
+  const params = new URLSearchParams({ cursor, limit: String(limit) });
+
+  if (tag) params.append('tag', tag);
+  if (author) params.append('author', author);
+
+  const response = await api.get<PostsCursorResponse>(`/api/posts?${params}`, {
+    authMode: 'optional',
+  });
+  return response.data;
+}
+
+/**
+ * Get published posts by authors the current user follows (cursor pagination)
+ * Omit the cursor for the first page
+ * Auth: Required - must be authenticated
+ */
+export async function getFeed(cursor = '', limit = 12): Promise<PostsCursorResponse> {
+  const params = new URLSearchParams({ cursor, limit: String(limit) });
+
+  const response = await api.get<PostsCursorResponse>(`/api/feed?${params}`, {
+    authMode: 'required',
+  });
+  return response.data;
+}
+
+/**
+ * Get view statistics for one of the current user's posts
+ * Auth: Required - author only
+ */
+export async function getPostStats(slug: string, days = 30): Promise<PostStats> {
+  const response = await api.get<PostStats>(`/api/posts/${slug}/stats?days=${days}`, {
+    authMode: 'required',
+  });
+  return response.data;
+}
+
+/**
+ * Full-text search over published posts
+ * Auth: Optional - works without auth, includes token if available
+ */
+export async function searchPosts(
+  q: string,
+  { page = 1, limit = 10, tag, author }: SearchOptions = {}
+): Promise<SearchResponse> {
+  const params = new URLSearchParams({
+    q,
+    page: String(page),
+    limit: String(limit),
+  });
+
+  if (tag) params.append('tag', tag);
+  if (author) params.append('author', author);
+
+  const response = await api.get<SearchResponse>(`/api/posts/search?${params}`, {
+    authMode: 'optional',
+  });
+  return response.data;
+}
+
+/**
+ * Get the signed-in user's stored profile (created on first call)
+ * Auth: Required - must be authenticated
+ */
+export async function getCurrentUser(): Promise<CurrentUser> {
+  const response = await api.get<CurrentUser>('/api/users/me', {
+    authMode: 'required',
+  });
+  return response.data;
+}
+
+/**
+ * Update the signed-in user's profile
+ * Auth: Required - must be authenticated
+ */
+export async function updateCurrentUser(data: UpdateProfileData): Promise<CurrentUser> {
+  const response = await api.put<CurrentUser>('/api/users/me', data, {
+    authMode: 'required',
+  });
+  return response.data;
+}
+
+/**
+ * Get the current user's author dashboard statistics
+ * Auth: Required - must be authenticated
+ */
+export async function getDashboard(): Promise<AuthorDashboard> {
+  const response = await api.get<AuthorDashboard>('/api/users/me/dashboard', {
+    authMode: 'required',
+  });
+  return response.data;
+}
+
+/**
+ * Check whether a username can be claimed by the signed-in user
+ * Auth: Required - must be authenticated
+ */
+export async function checkUsernameAvailability(username: string): Promise<UsernameAvailability> {
+  const params = new URLSearchParams({ username });
+  const response = await api.get<UsernameAvailability>(
+    `/api/users/username-available?${params}`,
+    { authMode: 'required' }
+  );
+  return response.data;
+}
+
+/**
+ * Change the signed-in user's username (old profile URLs redirect to the new one)
+ * Auth: Required - must be authenticated
+ */
+export async function changeUsername(username: string): Promise<CurrentUser> {
+  const response = await api.put<CurrentUser>(
+    '/api/users/me/username',
+    { username },
+    { authMode: 'required' }
+  );
+  return response.data;
+}
+
+/**
+ * Get the signed-in user's email notification preferences
+ * Auth: Required - must be authenticated
+ */
+export async function getEmailPreferences(): Promise<EmailPreferences> {
+  const response = await api.get<EmailPreferences>('/api/users/me/email-preferences', {
+    authMode: 'required',
+  });
+  return response.data;
+}
+
+/**
+ * Change the signed-in user's email notification preferences
+ * Auth: Required - must be authenticated
+ */
+export async function updateEmailPreferences(
+  data: Partial<EmailPreferences>
+): Promise<EmailPreferences> {
+  const response = await api.put<EmailPreferences>('/api/users/me/email-preferences', data, {
+    authMode: 'required',
+  });
+  return response.data;
+}
+
+/**
+ * Turn off the emails named in an unsubscribe link's token
+ * Auth: None - the signed token identifies the user
+ */
+export async function unsubscribeFromEmails(token: string): Promise<UnsubscribeResult> {
+  const params = new URLSearchParams({ token });
+  const response = await api.post<UnsubscribeResult>(
+    `/api/email/unsubscribe?${params}`,
+    {},
+    { authMode: 'none' }
+  );
+  return response.data;
+}
+
+/**
+ * Get a user's public profile
+ * Auth: Optional - works without auth, includes token if available (adds `following`)
+ */
+export async function getUser(username: string): Promise<UserProfile> {
+  const response = await api.get<UserProfile>(`/api/users/${encodeURIComponent(username)}`, {
+    authMode: 'optional',
+  });
+  return response.data;
+}
+
+/**
+ * Follow an author (no-op if already following)
+ * Auth: Required - must be authenticated
+ */
+export async function followUser(username: string): Promise<FollowResult> {
+  const response = await api.put<FollowResult>(
+    `/api/users/${encodeURIComponent(username)}/follow`,
+    {},
+    { authMode: 'required' }
+  );
+  return response.data;
+}
+
+/**
+ * Stop following an author
+ * Auth: Required - must be authenticated
+ */
+export async function unfollowUser(username: string): Promise<FollowResult> {
+  const response = await api.delete<FollowResult>(
+    `/api/users/${encodeURIComponent(username)}/follow`,
+    { authMode: 'required' }
+  );
+  return response.data;
+}
+
+/**
+ * Get tags used by published posts with their post counts (most used first)
+ * Auth: None - public endpoint
+ */
+export async function getTags(limit = 100): Promise<TagCount[]> {
+  const response = await api.get<{ tags: TagCount[] }>(`/api/tags?limit=${limit}`, {
+    authMode: 'none',
+  });
+  return response.data.tags;
+}
+
 /**
  * Get current user's posts (including drafts)
  * Auth: Required - must be authenticated
@@ -213,7 +741,7 @@ export async function getPosts(
 export async function getMyPosts(
   page = 1,
   limit = 10,
-  status?: 'draft' | 'published' | 'all'
+  status?: 'draft' | 'scheduled' | 'published' | 'all'
 ): Promise<PostsResponse> {
   const params = new URLSearchParams({
     page: String(page),
@@ -270,3 +798,315 @@ export async function deletePost(slug: string): Promise<void> {
     authMode: 'required',
   });
 }
+
+/**
+ * List revisions of a post, newest first
+ * Auth: Required - must be authenticated and post author
+ */
+export async function getRevisions(slug: string, page = 1, limit = 20): Promise<RevisionsResponse> {
+  const params = new URLSearchParams({
+    page: String(page),
+    limit: String(limit),
+  });
+
+  const response = await api.get<RevisionsResponse>(`/api/posts/${slug}/revisions?${params}`, {
+    authMode: 'required',
+  });
+  return response.data;
+}
+
+/**
+ * Get a single revision including its content
+ * Auth: Required - must be authenticated and post author
+ */
+export async function getRevision(slug: string, revision: number): Promise<PostRevision> {
+  const response = await api.get<PostRevision>(`/api/posts/${slug}/revisions/${revision}`, {
+    authMode: 'required',
+  });
+  return response.data;
+}
+
+/**
+ * Diff two revisions of a post
+ * Auth: Required - must be authenticated and post author
+ */
+export async function getRevisionDiff(
+  slug: string,
+  from: number,
+  to: number
+): Promise<RevisionDiff> {
+  const params = new URLSearchParams({
+    from: String(from),
+    to: String(to),
+  });
+
+  const response = await api.get<RevisionDiff>(`/api/posts/${slug}/revisions/diff?${params}`, {
+    authMode: 'required',
+  });
+  return response.data;
+}
+
+/**
+ * Restore an older revision (recorded as a new revision)
+ * Auth: Required - must be authenticated and post author
+ */
+export async function restoreRevision(slug: string, revision: number): Promise<Post> {
+  const response = await api.post<Post>(
+    `/api/posts/${slug}/revisions/${revision}/restore`,
+    {},
+    { authMode: 'required' }
+  );
+  return response.data;
+}
+
+/**
+ * Get top-level comments with cursor pagination (stable while new comments arrive)
+ * Omit the cursor for the first page
+ * Auth: Optional - works without auth
+ */
+export async function getCommentsByCursor(
+  slug: string,
+  cursor = '',
+  limit = 20,
+  { depth = 2, replyLimit = 3 }: ReplyTreeOptions = {}
+): Promise<CommentsCursorResponse> {
+  const params = new URLSearchParams({
+    cursor,
+    limit: String(limit),
+    depth: String(depth),
+    replyLimit: String(replyLimit),
+  });
+
+  const response = await api.get<CommentsCursorResponse>(`/api/posts/${slug}/comments?${params}`, {
+    authMode: 'optional',
+  });
+  return response.data;
+}
+
+/**
+ * Get a page of replies to a comment ("load more replies")
+ * Auth: Optional - works without auth
+ */
+export async function getCommentReplies(
+  commentId: string,
+  page = 1,
+  limit = 10,
+  { depth = 1, replyLimit = 3 }: ReplyTreeOptions = {}
+): Promise<CommentsResponse> {
+  const params = new URLSearchParams({
+    page: String(page),
+    limit: String(limit),
+    depth: String(depth),
+    replyLimit: String(replyLimit),
+  });
+
+  const response = await api.get<CommentsResponse>(
+    `/api/comments/${commentId}/replies?${params}`,
+    { authMode: 'optional' }
+  );
+  return response.data;
+}
+
+/**
+ * Add a comment (or a reply when parentCommentId is given)
+ * Auth: Required - must be authenticated
+ */
+export async function createComment(
+  slug: string,
+  content: string,
+  parentCommentId?: string
+): Promise<Comment> {
+  const response = await api.post<Comment>(
+    `/api/posts/${slug}/comments`,
+    { content, parentCommentId },
+    { authMode: 'required' }
+  );
+  return response.data;
+}
+
+/**
+ * Edit a comment
+ * Auth: Required - must be authenticated and comment author
+ */
+export async function updateComment(commentId: string, content: string): Promise<Comment> {
+  const response = await api.put<Comment>(
+    `/api/comments/${commentId}`,
+    { content },
+    { authMode: 'required' }
+  );
+  return response.data;
+}
+
+/**
+ * Delete a comment (soft delete)
+ * Auth: Required - must be authenticated and comment author
+ */
+export async function deleteComment(commentId: string): Promise<void> {
+  await api.delete(`/api/comments/${commentId}`, {
+    authMode: 'required',
+  });
+}
+
+/**
+ * Toggle the signed-in user's reaction of one type on a post
+ * Auth: Required - must be authenticated
+ */
+export async function togglePostReaction(
+  slug: string,
+  type: ReactionType
+): Promise<ReactionToggleResult> {
+  const response = await api.post<ReactionToggleResult>(
+    `/api/posts/${slug}/reactions/${type}`,
+    {},
+    { authMode: 'required' }
+  );
+  return response.data;
+}
+
+/**
+ * Toggle the signed-in user's reaction of one type on a comment
+ * Auth: Required - must be authenticated
+ */
+export async function toggleCommentReaction(
+  commentId: string,
+  type: ReactionType
+): Promise<ReactionToggleResult> {
+  const response = await api.post<ReactionToggleResult>(
+    `/api/comments/${commentId}/reactions/${type}`,
+    {},
+    { authMode: 'required' }
+  );
+  return response.data;
+}
+
+/**
+ * Get the current user's bookmarked posts, most recently saved first
+ * Auth: Required - must be authenticated
+ */
+export async function getBookmarks(page = 1, limit = 12): Promise<BookmarksResponse> {
+  const params = new URLSearchParams({
+    page: String(page),
+    limit: String(limit),
+  });
+
+  const response = await api.get<BookmarksResponse>(`/api/bookmarks?${params}`, {
+    authMode: 'required',
+  });
+  return response.data;
+}
+
+/**
+ * Bookmark a published post (no-op if already bookmarked)
+ * Auth: Required - must be authenticated
+ */
+export async function addBookmark(slug: string): Promise<void> {
+  await api.put(`/api/bookmarks/${slug}`, {}, { authMode: 'required' });
+}
+
+/**
+ * Remove a post from the current user's bookmarks
+ * Auth: Required - must be authenticated
+ */
+export async function removeBookmark(slug: string): Promise<void> {
+  await api.delete(`/api/bookmarks/${slug}`, {
+    authMode: 'required',
+  });
+}
+
+/**
+ * Get the current user's notifications, newest first (cursor pagination)
+ * Auth: Required - must be authenticated
+ */
+export async function getNotifications(
+  cursor = '',
+  limit = 20,
+  unreadOnly = false
+): Promise<NotificationsResponse> {
+  const params = new URLSearchParams({ cursor, limit: String(limit) });
+
+  if (unreadOnly) params.append('unread', 'true');
+
+  const response = await api.get<NotificationsResponse>(`/api/notifications?${params}`, {
+    authMode: 'required',
+  });
+  return response.data;
+}
+
+/**
+ * Get the number of unread notifications
+ * Auth: Required - must be authenticated
+ */
+export async function getUnreadNotificationCount(): Promise<number> {
+  const response = await api.get<{ unreadCount: number }>('/api/notifications/unread-count', {
+    authMode: 'required',
+  });
+  return response.data.unreadCount;
+}
+
+/**
+ * Mark one notification as read
+ * Auth: Required - must be authenticated
+ * @returns the remaining unread count
+ */
+export async function markNotificationRead(id: string): Promise<number> {
+  const response = await api.put<{ unreadCount: number }>(
+    `/api/notifications/${id}/read`,
+    {},
+    { authMode: 'required' }
+  );
+  return response.data.unreadCount;
+}
+
+/**
+ * Mark all notifications as read
+ * Auth: Required - must be authenticated
+ */
+export async function markAllNotificationsRead(): Promise<number> {
+  const response = await api.put<{ unreadCount: number }>(
+    '/api/notifications/read-all',
+    {},
+    { authMode: 'required' }
+  );
+  return response.data.unreadCount;
+}
+
+/**
+ * Upload an image to the current user's media library
+ * Auth: Required - must be authenticated
+ */
+export async function uploadMedia(file: File): Promise<Media> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await api.post<Media>('/api/media', formData, {
+    authMode: 'required',
+    headers: { 'Content-Type': 'multipart/form-data' },
+  });
+  return response.data;
+}
+
+/**
+ * List current user's uploaded images
+ * Auth: Required - must be authenticated
+ */
+export async function getMyMedia(page = 1, limit = 24): Promise<MediaResponse> {
+  const params = new URLSearchParams({
+    page: String(page),
+    limit: String(limit),
+  });
+
+  const response = await api.get<MediaResponse>(`/api/media?${params}`, {
+    authMode: 'required',
+  });
+  return response.data;
+}
+
+/**
+ * Delete an image that no post uses
+ * Auth: Required - must be authenticated and media owner
+ */
+export async function deleteMedia(mediaId: string): Promise<void> {
+  await api.delete(`/api/media/${mediaId}`, {
+    authMode: 'required',
+  });
+}
@@ -1,3 +1,5 @@
+import typography from '@tailwindcss/typography';
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: [
@@ -26,5 +28,5 @@ export default {
       },
     },
   },
-  plugins: [],
+  plugins: [typography],
 }
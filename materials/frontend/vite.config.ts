@@ -22,6 +22,11 @@ export default defineConfig({
         target: 'http://localhost:3000',
         changeOrigin: true,
       },
+      // RSS/Atom feeds are served by the backend outside /api
+      '^/((users|tags)/[^/]+/)?(feed|atom)\\.xml$': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+      },
     },
   },
   build: {